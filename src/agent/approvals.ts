@@ -0,0 +1,144 @@
+import { asSchema, type ToolSet } from "ai";
+import { COMPONENTS_DIR } from "./project-context";
+import { planFileEdit } from "./edits";
+import { getToolTargets } from "./tool-targets";
+import { isToolSuccess, type ToolMiddleware } from "./tool-middleware";
+import { workspace } from "./workspace";
+import type { ApprovalDecision, ApprovalRequest } from "../types";
+
+// Asked before a sensitive tool call runs; see requireApproval
+export type Approver = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+// Approves everything, for --yes and unattended runs
+export const approveAll: Approver = async () => ({ action: "approve" });
+
+// What an edit_file call would leave in the file; nothing when it would fail
+function previewEdit(input: any): ApprovalRequest["changes"] {
+  const edit = planFileEdit(input);
+  if ("error" in edit) return [];
+  return [{ path: edit.path, before: edit.before, after: edit.after }];
+}
+
+/**
+ * Why a tool call needs a human yes, or undefined when it can just run.
+ * Sensitive calls are migrations that change the database, overwriting an
+ * existing API route and changing a component the agent did not write.
+ * Targets are compared in their project-relative form, see getToolTargets.
+ */
+export function approvalReason(
+  toolName: string,
+  input: any,
+  createdByRun: Set<string> = new Set()
+): string | undefined {
+  const targets = getToolTargets(toolName, input);
+
+  if (targets.migration === "migrate" || targets.migration === "push") {
+    return `Runs "${targets.migration}" against the database`;
+  }
+
+  const existing = targets.writes.filter(
+    (target) => workspace.exists(target) && !createdByRun.has(target)
+  );
+  const route = existing.find((target) => /(^|\/)route\.ts$/.test(target));
+  if (route) return `Overwrites the existing API route ${route}`;
+
+  const component = existing.find((target) =>
+    target.startsWith(`${COMPONENTS_DIR}/`)
+  );
+  if (component) return `Changes the hand-written component ${component}`;
+
+  return undefined;
+}
+
+// Edited arguments go through the tool's own schema, as the model's do
+async function parseEditedInput(
+  tools: ToolSet,
+  toolName: string,
+  input: unknown
+): Promise<{ input: unknown } | { error: string }> {
+  const inputSchema = tools[toolName]?.inputSchema;
+  const validate = inputSchema && asSchema(inputSchema).validate;
+  if (!validate) return { input };
+
+  const result = await validate(input);
+  if (result.success) return { input: result.value };
+
+  // Zod errors list their issues; anything else has just a message
+  const { issues } = result.error as {
+    issues?: { path: PropertyKey[]; message: string }[];
+  };
+  return {
+    error: issues
+      ? issues
+          .map(
+            (issue) => `${issue.path.join(".") || "input"}: ${issue.message}`
+          )
+          .join("; ")
+      : result.error.message,
+  };
+}
+
+/**
+ * Pause sensitive tool calls for a decision. Approved calls run as they are,
+ * edited ones with the new arguments once they pass the tool's input schema,
+ * and rejected ones return the rejection to the model as their result.
+ * Middlewares after this one see the edited arguments, so the policy and the
+ * plan are checked against what really runs.
+ */
+export function requireApproval(
+  approve: Approver,
+  tools: ToolSet
+): ToolMiddleware {
+  // Files this run created are the agent's own and need no approval
+  const createdByRun = new Set<string>();
+
+  return async (call, next) => {
+    const run = async (input: any) => {
+      const { writes } = getToolTargets(call.toolName, input);
+      const created = writes.filter((target) => !workspace.exists(target));
+      const output = await next(input);
+      if (isToolSuccess(output)) {
+        created.forEach((target) => createdByRun.add(target));
+      }
+      return output;
+    };
+
+    const reason = approvalReason(call.toolName, call.input, createdByRun);
+    if (!reason) return run(call.input);
+
+    const decision = await approve({
+      toolName: call.toolName,
+      toolCallId: call.toolCallId,
+      input: call.input,
+      reason,
+      changes: call.toolName === "edit_file" ? previewEdit(call.input) : [],
+    });
+
+    if (decision.action === "reject") {
+      return {
+        success: false,
+        rejected: true,
+        error: `The user rejected this ${call.toolName} call${
+          decision.reason ? `: ${decision.reason}` : ""
+        }. Do not retry it unchanged.`,
+      };
+    }
+
+    if (decision.action !== "edit") return run(call.input);
+
+    const edited = await parseEditedInput(tools, call.toolName, decision.input);
+    if ("error" in edited) {
+      return {
+        success: false,
+        rejected: true,
+        error: `The user's edited arguments for ${call.toolName} are invalid, so the call did not run: ${edited.error}`,
+      };
+    }
+
+    const input = edited.input;
+    const output = await run(input);
+    if (!output || typeof output !== "object") return output;
+    // Tell the model its arguments were changed before the call ran
+    return { ...output, approval: { action: "edit", input } };
+  };
+}
@@ -0,0 +1,145 @@
+import fs from "fs";
+import path from "path";
+import type { ModelMessage } from "ai";
+import { RUNS_DIR } from "./runs";
+import type { ToolMiddleware } from "./tool-middleware";
+import type { AgentPlan } from "./planner";
+
+export interface CheckpointToolResult {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  output: unknown;
+}
+
+export type CheckpointEntry =
+  | {
+      type: "start";
+      prompt: string;
+      profile: string;
+      model: string;
+      plan?: AgentPlan;
+    }
+  // Conversation appended since the previous entry
+  | { type: "messages"; messages: ModelMessage[] }
+  // Written as soon as a tool finishes, even if its step never does
+  | ({ type: "tool-result" } & CheckpointToolResult);
+
+// One line of checkpoints.jsonl. The log is append-only so whatever made it
+// to disk before a crash is still readable.
+export type Checkpoint = CheckpointEntry & { at: string };
+
+function checkpointPath(runId: string) {
+  return path.join(RUNS_DIR, runId, "checkpoints.jsonl");
+}
+
+export function appendCheckpoint(runId: string, entry: CheckpointEntry) {
+  const line = JSON.stringify({ at: new Date().toISOString(), ...entry });
+  fs.appendFileSync(checkpointPath(runId), `${line}\n`);
+}
+
+export function loadCheckpoints(runId: string): Checkpoint[] {
+  const filePath = checkpointPath(runId);
+  if (!fs.existsSync(filePath)) return [];
+
+  return (
+    fs
+      .readFileSync(filePath, "utf-8")
+      .split("\n")
+      .filter(Boolean)
+      // A line cut short by a crash is dropped rather than failing the resume
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as Checkpoint];
+        } catch {
+          return [];
+        }
+      })
+  );
+}
+
+// Log every completed tool call of a run
+export function checkpointToolResults(runId: string): ToolMiddleware {
+  return async (call, next) => {
+    const output = await next();
+    appendCheckpoint(runId, {
+      type: "tool-result",
+      toolCallId: call.toolCallId,
+      toolName: call.toolName,
+      input: call.input,
+      output,
+    });
+    return output;
+  };
+}
+
+function toolCallIds(messages: ModelMessage[]): Set<string> {
+  const ids = new Set<string>();
+  for (const message of messages) {
+    if (message.role !== "tool") continue;
+    for (const part of message.content) ids.add(part.toolCallId);
+  }
+  return ids;
+}
+
+/**
+ * Rebuild a run's conversation from its checkpoint log. Tool calls that
+ * finished inside a step that never completed are added back as well, so
+ * they are not repeated.
+ */
+export function restoreRun(runId: string) {
+  const checkpoints = loadCheckpoints(runId);
+  const start = checkpoints.find(
+    (checkpoint): checkpoint is Extract<Checkpoint, { type: "start" }> =>
+      checkpoint.type === "start"
+  );
+  if (!start) {
+    throw new Error(`Run ${runId} has no checkpoints to resume from`);
+  }
+
+  const messages = checkpoints.flatMap((checkpoint) =>
+    checkpoint.type === "messages" ? checkpoint.messages : []
+  );
+  const toolResults: CheckpointToolResult[] = checkpoints.flatMap(
+    (checkpoint) =>
+      checkpoint.type === "tool-result"
+        ? [
+            {
+              toolCallId: checkpoint.toolCallId,
+              toolName: checkpoint.toolName,
+              input: checkpoint.input,
+              output: checkpoint.output,
+            },
+          ]
+        : []
+  );
+
+  const answered = toolCallIds(messages);
+  const unfinished = toolResults.filter(
+    (result) => !answered.has(result.toolCallId)
+  );
+  if (unfinished.length > 0) {
+    messages.push(
+      {
+        role: "assistant",
+        content: unfinished.map((result) => ({
+          type: "tool-call" as const,
+          toolCallId: result.toolCallId,
+          toolName: result.toolName,
+          input: result.input,
+        })),
+      },
+      {
+        role: "tool",
+        content: unfinished.map((result) => ({
+          type: "tool-result" as const,
+          toolCallId: result.toolCallId,
+          toolName: result.toolName,
+          output: { type: "json" as const, value: result.output as any },
+        })),
+      }
+    );
+  }
+
+  return { start, messages, toolResults };
+}
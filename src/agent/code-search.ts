@@ -0,0 +1,149 @@
+import { minimatch } from "minimatch";
+import { workspace } from "./workspace";
+import { isBinaryContent, listProjectFiles } from "./project-files";
+
+export const DEFAULT_CONTEXT_LINES = 2;
+export const DEFAULT_MAX_RESULTS = 50;
+// Keeps one search from filling the context window
+const MAX_OUTPUT_CHARS = 20000;
+const MAX_LINE_CHARS = 300;
+// Generated bundles and data dumps, not code worth searching
+const MAX_FILE_CHARS = 1_000_000;
+
+export interface CodeSearchOptions {
+  regex: RegExp;
+  // Project-relative directory to search in
+  dir?: string;
+  include?: string[];
+  exclude?: string[];
+  contextLines?: number;
+  maxResults?: number;
+}
+
+export interface CodeSearchResult {
+  // Matches grouped by file, grep style: "12:" marks a matching line, "11-"
+  // a context line and "--" a gap
+  output: string;
+  matchCount: number;
+  totalMatches: number;
+  filesWithMatches: number;
+  filesSearched: number;
+  truncated: boolean;
+}
+
+function matchesAny(filePath: string, globs: string[]) {
+  return globs.some((glob) =>
+    minimatch(filePath, glob, { dot: true, matchBase: true })
+  );
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_CHARS
+    ? `${line.slice(0, MAX_LINE_CHARS)}…`
+    : line;
+}
+
+// One file's matches with their context, overlapping windows merged
+function formatFileMatches(
+  lines: string[],
+  matched: number[],
+  contextLines: number
+): string {
+  const blocks: string[] = [];
+  let block: string[] = [];
+  let last = -1;
+
+  for (const index of matched) {
+    const from = Math.max(0, index - contextLines, last + 1);
+    if (last !== -1 && from > last + 1) {
+      blocks.push(block.join("\n"));
+      block = [];
+    }
+    const to = Math.min(lines.length - 1, index + contextLines);
+    for (let i = from; i <= to; i++) {
+      const marker = matched.includes(i) ? ":" : "-";
+      block.push(`${i + 1}${marker}${clip(lines[i])}`);
+    }
+    last = to;
+  }
+  blocks.push(block.join("\n"));
+
+  return blocks.join("\n--\n");
+}
+
+/**
+ * Search the contents of the project's text files line by line. Files that
+ * are gitignored, protected, binary or huge are skipped. Results stop at
+ * `maxResults` matches or the output size cap; the totals still count
+ * everything.
+ */
+export function searchCode({
+  regex,
+  dir = ".",
+  include = [],
+  exclude = [],
+  contextLines = DEFAULT_CONTEXT_LINES,
+  maxResults = DEFAULT_MAX_RESULTS,
+}: CodeSearchOptions): CodeSearchResult {
+  const files = listProjectFiles(dir).filter(
+    (file) =>
+      (include.length === 0 || matchesAny(file, include)) &&
+      !matchesAny(file, exclude)
+  );
+
+  const sections: string[] = [];
+  let outputChars = 0;
+  let matchCount = 0;
+  let totalMatches = 0;
+  let filesWithMatches = 0;
+  let filesSearched = 0;
+  let truncated = false;
+  // Set once a file's matches had to be cut to stay under the output cap
+  let outputFull = false;
+
+  for (const file of files) {
+    const content = workspace.readFile(file);
+    if (content.length > MAX_FILE_CHARS || isBinaryContent(content)) continue;
+    filesSearched++;
+
+    const lines = content.split("\n");
+    const matched = lines.flatMap((line, index) =>
+      regex.test(line) ? [index] : []
+    );
+    if (matched.length === 0) continue;
+    filesWithMatches++;
+    totalMatches += matched.length;
+
+    const room = maxResults - matchCount;
+    if (room <= 0 || outputFull) {
+      truncated = true;
+      continue;
+    }
+    let shown = matched.slice(0, room);
+    if (shown.length < matched.length) truncated = true;
+
+    // Drop matches until the section fits in what is left of the cap
+    const budget =
+      MAX_OUTPUT_CHARS - outputChars - (sections.length > 0 ? 2 : 0);
+    let section = `${file}\n${formatFileMatches(lines, shown, contextLines)}`;
+    while (section.length > budget && shown.length > 0) {
+      outputFull = truncated = true;
+      shown = shown.slice(0, -1);
+      section = `${file}\n${formatFileMatches(lines, shown, contextLines)}`;
+    }
+    if (shown.length === 0) continue;
+
+    sections.push(section);
+    outputChars += section.length;
+    matchCount += shown.length;
+  }
+
+  return {
+    output: sections.join("\n\n"),
+    matchCount,
+    totalMatches,
+    filesWithMatches,
+    filesSearched,
+    truncated,
+  };
+}
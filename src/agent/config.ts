@@ -0,0 +1,25 @@
+import fs from "fs";
+import path from "path";
+import type { AgentConfig } from "../types";
+
+export const CONFIG_FILE = "agent.config.json";
+
+// Project-level configuration for the agent. Lives next to package.json so
+// it can be committed and shared by the whole team.
+export function loadAgentConfig(cwd: string = process.cwd()): AgentConfig {
+  const configPath = path.join(cwd, CONFIG_FILE);
+
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(configPath, "utf-8")) as AgentConfig;
+  } catch (error) {
+    throw new Error(
+      `Invalid ${CONFIG_FILE}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
@@ -1,43 +1,647 @@
-import { generateText, stepCountIs } from "ai";
-import { google } from "@ai-sdk/google";
+import {
+  streamText,
+  stepCountIs,
+  type LanguageModel,
+  type ModelMessage,
+  type StepResult,
+  type ToolSet,
+} from "ai";
 import { config } from "dotenv";
 import { fileTools } from "./tools/file-tools";
 import { dbTools } from "./tools/db-tools";
 import { apiTools } from "./tools/api-tools";
 import { integrationTools } from "./tools/integration-tools";
-import { SYSTEM_PROMPTS } from "./prompts/system-prompts";
+import { memoryTools } from "./tools/memory-tools";
+import { buildSystemPrompt } from "./prompts/templates";
+import { resolveModel } from "./providers";
+import { getProfile, type AgentProfile } from "./profiles";
+import { enforcePlan, formatPlanForPrompt, type AgentPlan } from "./planner";
+import {
+  isToolSuccess,
+  wrapTools,
+  type ToolMiddleware,
+} from "./tool-middleware";
+import {
+  createWorkflow,
+  stagesSkippedByPlan,
+  workflowTools,
+  WORKFLOW_STAGES,
+  type Workflow,
+} from "./workflow";
+import { enforcePolicy, loadPolicy } from "./policy";
+import { classifyError, type ToolFailureError } from "./errors";
+import {
+  loadRetrySettings,
+  retryModel,
+  retryTools,
+  toRetryEvent,
+} from "./retry";
+import { requireApproval, type Approver } from "./approvals";
+import { isDryRun } from "./workspace";
+import {
+  createUsageTracker,
+  findPrice,
+  PLAN_USAGE,
+  type UsageTracker,
+} from "./usage";
+import {
+  buildRunChanges,
+  captureBaseline,
+  collectWarnings,
+} from "./run-report";
+import {
+  compareToolCalls,
+  createTraceRecorder,
+  loadTrace,
+  traceStart,
+  traceToolCalls,
+} from "./traces";
+import {
+  beginRun,
+  completeRun,
+  createTimestampId,
+  getRunFiles,
+  loadRun,
+  rollbackRun,
+} from "./runs";
+import {
+  appendCheckpoint,
+  checkpointToolResults,
+  restoreRun,
+  type CheckpointToolResult,
+} from "./checkpoints";
+import { loadAgentConfig } from "./config";
+import {
+  DEFAULT_MAX_REPAIR_ATTEMPTS,
+  formatRepairPrompt,
+  isCheckFailure,
+  isVerifiableFile,
+  verifyFiles,
+} from "./verify";
+import type {
+  AgentEvent,
+  AgentRunReport,
+  BudgetSettings,
+  ModelPrice,
+  PolicyViolation,
+  TokenUsage,
+  VerificationResult,
+} from "../types";
 
 // Load environment variables from .env.local
 config({ path: ".env.local" });
 
-export async function databaseAgent(prompt: string, context?: any) {
-  // Enhanced prompt to ensure multi-step execution
-  const enhancedPrompt = `${prompt}
-
-IMPORTANT: This request requires completing ALL necessary steps in sequence. Do not stop after just creating a schema file. You must:
-1. Create the schema file
-2. Generate migrations using run_migration with action "generate"
-3. Run the migrations using run_migration with action "migrate"
-4. Continue with any additional requested steps
-
-Complete the ENTIRE workflow before finishing your response.`;
-
-  const result = await generateText({
-    model: google("gemini-1.5-flash"),
-    prompt: enhancedPrompt,
-    system: SYSTEM_PROMPTS.DATABASE_AGENT,
-    stopWhen: stepCountIs(15), // Increased for more complex operations
-    tools: {
-      ...fileTools,
-      ...dbTools,
-      ...apiTools,
-      ...integrationTools, // Added integration tools
+// Every tool an agent can be given; profiles pick from these by name
+export const agentTools: ToolSet = {
+  ...fileTools,
+  ...dbTools,
+  ...apiTools,
+  ...integrationTools,
+  ...memoryTools,
+  ...workflowTools,
+};
+
+export interface AgentOptions {
+  // Named profile, e.g. "schema-only" (default: full-stack)
+  profile?: string;
+  // Model spec in the form provider:model, e.g. "ollama:qwen2.5-coder"
+  model?: string;
+}
+
+export interface AgentRunOptions {
+  // Called for every step, tool call, tool result and text chunk as it happens
+  onEvent?: (event: AgentEvent) => void;
+  // Approved plan; when set, tool calls outside of it are refused
+  plan?: AgentPlan;
+  // Tokens spent making the plan, counted as part of this run
+  planUsage?: TokenUsage;
+  // Earlier conversation, including tool calls and results, for follow-ups
+  messages?: ModelMessage[];
+  // Type-check and lint touched files afterwards (default: on)
+  verify?: boolean;
+  // Stop before the run goes over this many tokens or dollars
+  budget?: BudgetSettings;
+  // Asked before sensitive tool calls run; without it they run unasked
+  approve?: Approver;
+  // Set by resumeAgent: the run being continued and its finished tool calls
+  resume?: {
+    runId: string;
+    prompt: string;
+    toolResults: CheckpointToolResult[];
+  };
+}
+
+export type DatabaseAgentOptions = AgentOptions & AgentRunOptions;
+
+export type Agent = ReturnType<typeof createAgent>;
+
+export interface AgentRunResult extends AgentRunReport {
+  steps: StepResult<ToolSet>[];
+  // Full conversation so far, ready to pass back in as `messages`
+  messages: ModelMessage[];
+}
+
+// The serializable part of a result, without the conversation and raw steps
+export function toRunReport({
+  steps,
+  messages,
+  ...report
+}: AgentRunResult): AgentRunReport {
+  return report;
+}
+
+// Repair turns only fix files that were already written
+const REPAIR_TOOLS = ["list_files", "read_file", "search_code", "edit_file"];
+
+const RESUME_PROMPT =
+  "The previous run stopped before it was finished. Continue the task from where it stopped. Tool calls above already completed; do not repeat them.";
+
+function toolErrorMessage(output: unknown): string | undefined {
+  if (isToolSuccess(output)) return undefined;
+  const { error } = output as { error?: unknown };
+  if (!error) return undefined;
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Build an agent from a named profile. The profile decides the tools, system
+ * prompt, step budget and workflow stages; the model can be swapped freely.
+ */
+export function createAgent(options: AgentOptions = {}) {
+  const profile = getProfile(options.profile);
+  const { model, spec } = resolveModel(options.model);
+  const tools: ToolSet = Object.fromEntries(
+    profile.tools.map((name) => [name, agentTools[name]])
+  );
+
+  return {
+    profile,
+    run: (prompt: string, runOptions: AgentRunOptions = {}) =>
+      runAgent(
+        { profile, model, spec, tools, price: findPrice(spec) },
+        prompt,
+        runOptions
+      ),
+  };
+}
+
+export async function databaseAgent(
+  prompt: string,
+  options: DatabaseAgentOptions = {}
+) {
+  return createAgent(options).run(prompt, options);
+}
+
+/**
+ * Continue a run that crashed or ran out of steps. The conversation is
+ * restored from the run's checkpoint log and the work continues as a new run,
+ * so it can be undone separately.
+ */
+export async function resumeAgent(
+  runId: string,
+  options: DatabaseAgentOptions = {}
+) {
+  const previous = loadRun(runId);
+  if (previous.status === "rolled-back" || previous.status === "undone") {
+    throw new Error(
+      `Run ${runId} was ${previous.status}, so its changes are gone. Start it again with: agent query`
+    );
+  }
+
+  const { start, messages, toolResults } = restoreRun(runId);
+
+  // A run left "running" belongs to a process that died; keep its changes
+  if (previous.status === "running") completeRun(previous);
+
+  return createAgent({
+    profile: options.profile ?? start.profile,
+    model: options.model ?? start.model,
+  }).run(RESUME_PROMPT, {
+    ...options,
+    plan: start.plan,
+    messages,
+    resume: { runId, prompt: start.prompt, toolResults },
+  });
+}
+
+/**
+ * Run a recorded trace again. The model answers with the recorded responses,
+ * while the tools really execute, so the replay shows whether the same tool
+ * sequence still produces the same outcomes.
+ */
+export async function replayAgent(
+  trace: string,
+  options: AgentRunOptions = {}
+) {
+  const recorded = loadTrace(trace);
+  const start = traceStart(recorded);
+
+  const result = await createAgent({
+    profile: start.profile,
+    model: `replay:${trace}`,
+  }).run(start.prompt, {
+    ...options,
+    plan: start.plan,
+    messages: start.messages,
+    resume: start.resume,
+  });
+
+  const replayed = loadTrace(result.traceId);
+  const countResponses = (entries: typeof recorded) =>
+    entries.filter((entry) => entry.type === "model-response").length;
+
+  return {
+    ...result,
+    mismatches: compareToolCalls(
+      traceToolCalls(recorded),
+      traceToolCalls(replayed)
+    ),
+    // Recorded model responses the replay never asked for
+    unusedResponses: countResponses(recorded) - countResponses(replayed),
+  };
+}
+
+async function runAgent(
+  {
+    profile,
+    model,
+    spec,
+    tools,
+    price,
+  }: {
+    profile: AgentProfile;
+    model: LanguageModel;
+    spec: string;
+    tools: ToolSet;
+    price?: ModelPrice;
+  },
+  prompt: string,
+  options: AgentRunOptions
+): Promise<AgentRunResult> {
+  const emit = options.onEvent ?? (() => {});
+  const { plan, resume } = options;
+
+  if (plan && profile.readOnly) {
+    throw new Error(
+      `The ${profile.name} profile cannot make changes, so it cannot execute a plan`
+    );
+  }
+
+  // Start every run knowing what already exists in the project
+  const system = buildSystemPrompt(profile.prompt, profile.tools);
+  const baseline = captureBaseline();
+
+  // A resumed conversation already carries the plan
+  const userPrompt =
+    plan && !resume ? `${prompt}\n\n${formatPlanForPrompt(plan)}` : prompt;
+
+  // The workflow decides which stage the run is in and which tools it may use
+  const { stages } = profile;
+  const workflow = stages
+    ? createWorkflow({
+        skip: [
+          ...WORKFLOW_STAGES.filter((stage) => !stages.includes(stage)),
+          ...(plan ? stagesSkippedByPlan(plan) : []),
+        ],
+        entities: plan?.entities.map((entity) => entity.name),
+        onStageChange: (from, to, skipped) =>
+          emit({ type: "stage-change", from, to, skipped }),
+      })
+    : undefined;
+  if (resume) workflow?.sync([{ toolResults: resume.toolResults }]);
+
+  const config = loadAgentConfig();
+  const usage = createUsageTracker({
+    price,
+    budget: {
+      maxTokens: options.budget?.maxTokens ?? config.budget?.maxTokens,
+      maxCost: options.budget?.maxCost ?? config.budget?.maxCost,
     },
+    onBudgetExceeded: (budget) => emit({ type: "budget-exceeded", ...budget }),
+  });
+  if (options.planUsage) usage.recordCall(PLAN_USAGE, options.planUsage);
+
+  // Every real run is transactional: files are snapshotted before the first
+  // write and restored if the run fails. Dry runs never touch the disk, and
+  // read-only profiles have nothing to record.
+  const run =
+    isDryRun() || profile.readOnly
+      ? null
+      : beginRun(resume?.prompt ?? prompt, resume?.runId);
+
+  // Recorded runs keep a checkpoint log of the conversation and every
+  // finished tool call, so `agent resume` can pick up where they stopped
+  const checkpoint = (messages: ModelMessage[]) => {
+    if (run) appendCheckpoint(run.id, { type: "messages", messages });
+  };
+
+  // Every run, recorded or not, leaves a trace that `agent replay` can rerun
+  const trace = createTraceRecorder(run?.id ?? createTimestampId());
+  trace.record({
+    type: "start",
+    prompt,
+    profile: profile.name,
+    model: spec,
+    plan,
+    messages: options.messages,
+    resume,
+    dryRun: isDryRun(),
   });
+  // Transient model failures are retried inside the trace, so it only
+  // records the calls that went through
+  const retry = loadRetrySettings();
+  const tracedModel = trace.wrapModel(
+    retryModel(model, retry.model, (attempt) => emit(toRetryEvent(attempt)))
+  );
+
+  try {
+    const messages: ModelMessage[] = [
+      ...(options.messages ?? []),
+      { role: "user", content: userPrompt },
+    ];
+    if (run) {
+      appendCheckpoint(run.id, {
+        type: "start",
+        prompt: run.prompt,
+        profile: profile.name,
+        model: spec,
+        plan,
+      });
+      checkpoint(messages);
+    }
+
+    // The project policy applies to every run, before the plan is checked
+    const violations: PolicyViolation[] = [];
+    const policy = enforcePolicy(loadPolicy(), (violation) =>
+      violations.push(violation)
+    );
+
+    // The trace sees each call first, so it records refusals too
+    const middlewares: ToolMiddleware[] = [trace.tools];
+    if (run) middlewares.push(checkpointToolResults(run.id));
+    // Before the policy and the plan, so arguments the user edited are
+    // checked like the model's
+    if (options.approve) {
+      middlewares.push(requireApproval(options.approve, tools));
+    }
+    middlewares.push(policy);
+    if (plan) middlewares.push(enforcePlan(plan));
+    // A tool that keeps failing for a transient reason ends the run
+    let toolFailure: ToolFailureError | undefined;
+    middlewares.push(
+      retryTools(retry, {
+        onRetry: (attempt) => emit(toRetryEvent(attempt)),
+        onExhausted: (error) => {
+          toolFailure ??= error;
+        },
+      })
+    );
+    const runTools = wrapTools(tools, ...middlewares);
+
+    let output = await streamRun(emit, {
+      model: tracedModel,
+      messages,
+      tools: runTools,
+      system,
+      maxSteps: profile.maxSteps,
+      workflow,
+      usage,
+      onStepMessages: checkpoint,
+      failure: () => toolFailure,
+    });
+    workflow?.sync(output.steps);
+
+    // Self-verification: type-check and lint what the run touched and hand
+    // any errors back to the agent for a bounded number of repair turns
+    const settings = config.verify ?? {};
+    let verification: VerificationResult | undefined;
+
+    if (run && options.verify !== false && settings.enabled !== false) {
+      const maxRepairAttempts =
+        settings.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+
+      for (let attempt = 0; ; attempt++) {
+        const files = getRunFiles(run.id).filter(isVerifiableFile);
+        if (files.length === 0) break;
+
+        emit({ type: "verify-start", attempt: attempt + 1, files });
+        const results = await verifyFiles(files, settings);
+        const diagnostics = results.filter((result) => !isCheckFailure(result));
+        const errorCount = diagnostics.filter(
+          (diagnostic) => diagnostic.severity === "error"
+        ).length;
+        verification = {
+          files,
+          diagnostics,
+          errorCount,
+          warningCount: diagnostics.length - errorCount,
+          failedChecks: results.filter(isCheckFailure),
+          repairAttempts: attempt,
+        };
+        emit({
+          type: "verify-result",
+          attempt: attempt + 1,
+          result: verification,
+        });
+
+        if (
+          verification.errorCount === 0 ||
+          attempt >= maxRepairAttempts ||
+          usage.shouldStop()
+        ) {
+          break;
+        }
+
+        const repairPrompt: ModelMessage = {
+          role: "user",
+          content: formatRepairPrompt(diagnostics),
+        };
+        checkpoint([repairPrompt]);
+        const repair = await streamRun(emit, {
+          model: tracedModel,
+          messages: [...output.messages, repairPrompt],
+          tools: runTools,
+          system,
+          maxSteps: profile.maxSteps,
+          activeTools: REPAIR_TOOLS,
+          usage,
+          onStepMessages: checkpoint,
+          failure: () => toolFailure,
+        });
+        output = { ...repair, steps: [...output.steps, ...repair.steps] };
+      }
+    }
+
+    trace.record({ type: "end", response: output.response });
+
+    const report = {
+      usage: usage.report(),
+      verification,
+      workflow: workflow?.report(),
+      violations,
+    };
+    return {
+      runId: run?.id,
+      traceId: trace.id,
+      profile: profile.name,
+      model: spec,
+      dryRun: isDryRun(),
+      response: output.response,
+      changes: buildRunChanges(baseline, output.steps, run?.id),
+      warnings: collectWarnings({ steps: output.steps, ...report }),
+      ...report,
+      steps: output.steps,
+      messages: output.messages,
+    };
+  } catch (error) {
+    const failure = classifyError(error);
+    trace.record({ type: "end", error: failure.message });
+    if (run) failure.rolledBack = rollbackRun(run, failure);
+    failure.usage = usage.report();
+    throw failure;
+  } finally {
+    if (run?.status === "running") completeRun(run);
+  }
+}
+
+async function streamRun(
+  emit: (event: AgentEvent) => void,
+  {
+    model,
+    messages,
+    tools,
+    system,
+    maxSteps,
+    workflow,
+    activeTools,
+    usage,
+    onStepMessages,
+    failure,
+  }: {
+    model: LanguageModel;
+    messages: ModelMessage[];
+    tools: ToolSet;
+    system: string;
+    maxSteps: number;
+    workflow?: Workflow;
+    activeTools?: string[];
+    usage: UsageTracker;
+    // Called with the messages each finished step added to the conversation
+    onStepMessages?: (messages: ModelMessage[]) => void;
+    // An error that ends the run after the current step
+    failure?: () => Error | undefined;
+  }
+) {
+  let recordedMessages = 0;
+
+  const result = streamText({
+    model,
+    messages,
+    system,
+    // Budget checks run after every step, once its usage is recorded
+    stopWhen: [
+      stepCountIs(maxSteps),
+      () => usage.shouldStop(),
+      () => failure?.() !== undefined,
+    ],
+    // Retried by retryModel instead, with backoff per agent.config.json
+    maxRetries: 0,
+    onStepFinish: (step) => {
+      usage.record(step);
+      // Step response messages accumulate over the call; pass on the new ones
+      onStepMessages?.(step.response.messages.slice(recordedMessages));
+      recordedMessages = step.response.messages.length;
+    },
+    tools,
+    activeTools,
+    // Move the workflow forward from the results so far before every step
+    prepareStep: workflow
+      ? ({ steps }) => {
+          workflow.sync(steps);
+          return {
+            activeTools: workflow.activeTools(),
+            system: `${system}\n\n${workflow.instructions()}`,
+          };
+        }
+      : undefined,
+    // Stream errors are rethrown below; don't let the SDK log them as well
+    onError: () => {},
+  });
+
+  let step = 0;
+  const callStartedAt = new Map<string, number>();
+
+  for await (const part of result.fullStream) {
+    switch (part.type) {
+      case "start-step":
+        step++;
+        emit({ type: "step-start", step });
+        break;
+
+      case "tool-call":
+        callStartedAt.set(part.toolCallId, Date.now());
+        emit({
+          type: "tool-call",
+          step,
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          input: part.input,
+        });
+        break;
+
+      case "tool-result":
+        emit({
+          type: "tool-result",
+          step,
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          output: part.output,
+          success: isToolSuccess(part.output),
+          durationMs:
+            Date.now() - (callStartedAt.get(part.toolCallId) ?? Date.now()),
+          error: toolErrorMessage(part.output),
+        });
+        break;
+
+      case "tool-error":
+        emit({
+          type: "tool-result",
+          step,
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          output: undefined,
+          success: false,
+          durationMs:
+            Date.now() - (callStartedAt.get(part.toolCallId) ?? Date.now()),
+          error:
+            part.error instanceof Error
+              ? part.error.message
+              : String(part.error),
+        });
+        break;
+
+      case "text-delta":
+        emit({ type: "text-delta", step, text: part.text });
+        break;
+
+      case "finish":
+        emit({ type: "finish", steps: step, finishReason: part.finishReason });
+        break;
+
+      case "error":
+        throw part.error;
+    }
+  }
+
+  const error = failure?.();
+  if (error) throw error;
+
+  const response = await result.response;
 
   return {
-    response: result.text,
-    steps: result.steps,
-    usage: result.usage,
+    response: await result.text,
+    steps: await result.steps,
+    // Full conversation so far, ready to pass back in as `messages`
+    messages: [...messages, ...response.messages],
   };
 }
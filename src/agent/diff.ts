@@ -0,0 +1,18 @@
+import { createTwoFilesPatch } from "diff";
+
+// Unified diff of one file. `before` is null for files that do not exist yet.
+export function unifiedDiff(
+  filePath: string,
+  before: string | null,
+  after: string
+): string {
+  return createTwoFilesPatch(
+    before === null ? "/dev/null" : `a/${filePath}`,
+    `b/${filePath}`,
+    before ?? "",
+    after,
+    undefined,
+    undefined,
+    { context: 3 }
+  );
+}
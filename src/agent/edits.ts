@@ -0,0 +1,181 @@
+import { workspace } from "./workspace";
+
+export interface TextEdit {
+  old_str: string;
+  new_str: string;
+  // Replace every match instead of requiring exactly one
+  replace_all?: boolean;
+}
+
+// Arguments of the edit_file tool
+export interface EditFileInput {
+  path: string;
+  old_str?: string | null;
+  new_str?: string;
+  replace_all?: boolean;
+  edits?: TextEdit[];
+  overwrite?: boolean;
+  ignore_whitespace?: boolean;
+}
+
+export interface PlannedEdit {
+  path: string;
+  before: string | null;
+  after: string;
+  action: "create" | "overwrite" | "edit";
+  replacements: number;
+}
+
+interface Match {
+  index: number;
+  length: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function findMatches(
+  content: string,
+  search: string,
+  ignoreWhitespace: boolean
+): Match[] {
+  if (ignoreWhitespace) {
+    // Any run of whitespace in old_str matches any run in the file
+    const pattern = search.trim().split(/\s+/).map(escapeRegExp).join("\\s+");
+    return Array.from(content.matchAll(new RegExp(pattern, "g")), (match) => ({
+      index: match.index ?? 0,
+      length: match[0].length,
+    }));
+  }
+
+  const matches: Match[] = [];
+  for (
+    let index = content.indexOf(search);
+    index !== -1;
+    index = content.indexOf(search, index + search.length)
+  ) {
+    matches.push({ index, length: search.length });
+  }
+  return matches;
+}
+
+/**
+ * Apply edits in order, each to the result of the one before. An edit whose
+ * old_str is missing, or matches more than once without replace_all, fails
+ * the whole batch, so a file is never left half edited.
+ */
+export function applyEdits(
+  content: string,
+  edits: TextEdit[],
+  { ignoreWhitespace = false }: { ignoreWhitespace?: boolean } = {}
+): { content: string; replacements: number } | { error: string } {
+  let replacements = 0;
+
+  for (const [i, edit] of edits.entries()) {
+    const label = edits.length > 1 ? `Edit ${i + 1}: ` : "";
+    if (!edit.old_str.trim()) {
+      return { error: `${label}old_str must not be empty` };
+    }
+
+    const matches = findMatches(content, edit.old_str, ignoreWhitespace);
+    if (matches.length === 0) {
+      const loose =
+        !ignoreWhitespace &&
+        findMatches(content, edit.old_str, true).length > 0;
+      return {
+        error: `${label}old_str was not found${
+          loose
+            ? "; it matches when whitespace is ignored, so check the indentation or set ignore_whitespace"
+            : ". Read the file again and copy the text exactly"
+        }`,
+      };
+    }
+    if (matches.length > 1 && !edit.replace_all) {
+      return {
+        error: `${label}old_str matches ${matches.length} times. Include more surrounding lines to make it unique, or set replace_all`,
+      };
+    }
+
+    // Spliced rather than String.replace, which would expand $& and friends
+    // in new_str
+    for (const match of [...matches].reverse()) {
+      content =
+        content.slice(0, match.index) +
+        edit.new_str +
+        content.slice(match.index + match.length);
+    }
+    replacements += matches.length;
+  }
+
+  return { content, replacements };
+}
+
+/**
+ * Work out what an edit_file call would leave in the file without writing
+ * anything, so the tool and the approval preview agree on the result.
+ */
+export function planFileEdit(
+  input: EditFileInput
+): PlannedEdit | { error: string } {
+  const before = workspace.exists(input.path)
+    ? workspace.readFile(input.path)
+    : null;
+  const edits =
+    input.edits ??
+    (input.old_str != null
+      ? [
+          {
+            old_str: input.old_str,
+            new_str: input.new_str ?? "",
+            replace_all: input.replace_all,
+          },
+        ]
+      : []);
+
+  if (edits.length === 0) {
+    if (input.new_str === undefined) {
+      return { error: "Give new_str for the file content, or edits" };
+    }
+    if (before === null) {
+      return {
+        path: input.path,
+        before,
+        after: input.new_str,
+        action: "create",
+        replacements: 0,
+      };
+    }
+    if (!input.overwrite) {
+      return {
+        error: `${input.path} already exists. Give old_str to edit it, or set overwrite to replace all of it`,
+      };
+    }
+    return {
+      path: input.path,
+      before,
+      after: input.new_str,
+      action: "overwrite",
+      replacements: 0,
+    };
+  }
+
+  if (before === null) {
+    return {
+      error: `${input.path} does not exist. Leave old_str null to create it`,
+    };
+  }
+
+  const result = applyEdits(before, edits, {
+    ignoreWhitespace: input.ignore_whitespace,
+  });
+  if ("error" in result) return result;
+
+  return {
+    path: input.path,
+    before,
+    after: result.content,
+    action: "edit",
+    replacements: result.replacements,
+  };
+}
@@ -0,0 +1,181 @@
+import { APICallError, LoadAPIKeyError, RetryError } from "ai";
+import type { ErrorCode, UsageReport } from "../types";
+
+// Process exit code per failure class, so scripts can tell them apart
+export const EXIT_CODES: Record<ErrorCode, number> = {
+  unknown: 1,
+  auth: 2,
+  "rate-limit": 3,
+  network: 4,
+  tool: 5,
+  database: 6,
+  policy: 7,
+};
+
+/**
+ * Base class of the agent's typed errors. Each class has its own exit code
+ * and remediation; `retryable` marks failures that may go away on their own.
+ */
+export class AgentError extends Error {
+  readonly code: ErrorCode = "unknown";
+  readonly retryable: boolean = false;
+  readonly remediation: string =
+    "Rerun with --verbose to see which step failed";
+  // Files restored when the run that failed was rolled back; unset when no
+  // run was rolled back
+  rolledBack?: string[];
+  // Tokens the failed run used before it stopped
+  usage?: UsageReport;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+
+  get exitCode(): number {
+    return EXIT_CODES[this.code];
+  }
+}
+
+export class AuthError extends AgentError {
+  readonly code = "auth";
+  readonly remediation =
+    "Check the API key of the model provider, e.g. GOOGLE_GENERATIVE_AI_API_KEY in .env.local, or pick another model with --model";
+}
+
+export class RateLimitError extends AgentError {
+  readonly code = "rate-limit";
+  readonly retryable = true;
+  readonly remediation =
+    "The model provider is rate limiting requests. Wait a moment, raise retry.model.maxAttempts in agent.config.json or use another model";
+
+  constructor(
+    message: string,
+    // From the provider's Retry-After header
+    readonly retryAfterMs?: number,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+  }
+}
+
+export class NetworkError extends AgentError {
+  readonly code = "network";
+  readonly retryable = true;
+  readonly remediation =
+    "Check your internet connection, or that the model server is running for local providers, and try again";
+}
+
+export class ToolFailureError extends AgentError {
+  readonly code: ErrorCode = "tool";
+  readonly retryable: boolean;
+  readonly remediation: string =
+    "Rerun with --verbose to see the failing tool call and its arguments";
+
+  constructor(
+    readonly toolName: string,
+    message: string,
+    options?: { cause?: unknown; retryable?: boolean }
+  ) {
+    super(`${toolName} failed: ${message}`, options);
+    this.retryable = options?.retryable ?? false;
+  }
+}
+
+export class DatabaseError extends ToolFailureError {
+  readonly code = "database";
+  readonly remediation =
+    "Make sure DATABASE_URL in .env.local points to a running database and that drizzle.config.ts uses it";
+}
+
+export class PolicyViolationError extends ToolFailureError {
+  readonly code = "policy";
+  readonly remediation =
+    "The call broke the tool policy. Change the request, or the policy in agent.config.json if the call should be allowed";
+}
+
+// Error codes of dropped or refused connections, from Node and Postgres
+const CONNECTION_ERRORS =
+  /\b(ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|UND_ERR_CONNECT_TIMEOUT|UND_ERR_SOCKET|57P01|57P03|53300)\b/;
+
+function isConnectionError(error: unknown): boolean {
+  for (let cause = error; cause instanceof Error; cause = cause.cause) {
+    const { code } = cause as { code?: unknown };
+    if (typeof code === "string" && CONNECTION_ERRORS.test(code)) return true;
+  }
+  return false;
+}
+
+function parseRetryAfter(headers?: Record<string, string>) {
+  const value = headers?.["retry-after"];
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Map anything thrown during a run to one of the typed errors, using the
+ * status codes and error codes providers and Node attach to their errors.
+ */
+export function classifyError(error: unknown): AgentError {
+  if (error instanceof AgentError) return error;
+  // The SDK's own retries wrap the error that made them give up
+  if (RetryError.isInstance(error)) return classifyError(error.lastError);
+
+  const message = error instanceof Error ? error.message : String(error);
+  const options = { cause: error };
+
+  if (LoadAPIKeyError.isInstance(error)) return new AuthError(message, options);
+
+  if (APICallError.isInstance(error)) {
+    const { statusCode, responseBody } = error;
+    if (
+      statusCode === 401 ||
+      statusCode === 403 ||
+      // Gemini answers an invalid key with a 400
+      responseBody?.includes("API_KEY_INVALID")
+    ) {
+      return new AuthError(message, options);
+    }
+    if (statusCode === 429) {
+      return new RateLimitError(
+        message,
+        parseRetryAfter(error.responseHeaders),
+        options
+      );
+    }
+    // 408, 409, 5xx and failed connections
+    if (error.isRetryable) return new NetworkError(message, options);
+  }
+
+  if (isConnectionError(error)) return new NetworkError(message, options);
+
+  return new AgentError(message, options);
+}
+
+/**
+ * Classify a failed tool result. Tools report failures as plain messages, so
+ * transient ones are recognised by the connection error codes they contain.
+ */
+export function classifyToolFailure(
+  toolName: string,
+  output: unknown
+): ToolFailureError {
+  const { error, refused } = (output ?? {}) as {
+    error?: unknown;
+    refused?: unknown;
+  };
+  const message =
+    error instanceof Error ? error.message : String(error ?? "no result");
+
+  if (refused) return new PolicyViolationError(toolName, message);
+
+  const retryable = CONNECTION_ERRORS.test(message);
+  // Drizzle Kit is the only thing that talks to the database
+  if (toolName === "run_migration") {
+    return new DatabaseError(toolName, message, { retryable });
+  }
+  return new ToolFailureError(toolName, message, { retryable });
+}
@@ -0,0 +1,128 @@
+import { workspace } from "./workspace";
+
+// Lives with the project, not the run state, so it can be committed and
+// shared like agent.config.json
+export const MEMORY_FILE = ".agent/memory.md";
+
+export const MEMORY_SECTIONS = {
+  conventions: "Conventions",
+  decisions: "Decisions",
+  built: "Built",
+} as const;
+
+export type MemorySection = keyof typeof MEMORY_SECTIONS;
+
+const EMPTY_MEMORY = `# Project Memory
+
+Maintained by the agent across runs; edit it with \`agent memory --edit\`.
+Keep entries as "- " bullets under their heading.
+
+${Object.values(MEMORY_SECTIONS)
+  .map((title) => `## ${title}\n`)
+  .join("\n")}`;
+
+// Reads through the workspace so dry runs see their own updates
+export function loadMemory(): string {
+  return workspace.exists(MEMORY_FILE)
+    ? workspace.readFile(MEMORY_FILE)
+    : EMPTY_MEMORY;
+}
+
+export function saveMemory(content: string) {
+  workspace.writeFile(
+    MEMORY_FILE,
+    content.endsWith("\n") ? content : `${content}\n`
+  );
+}
+
+// Bullet entries per section; text outside the sections is left alone
+export function readMemoryEntries(
+  content: string = loadMemory()
+): Record<MemorySection, string[]> {
+  const entries: Record<MemorySection, string[]> = {
+    conventions: [],
+    decisions: [],
+    built: [],
+  };
+  let section: MemorySection | undefined;
+
+  for (const line of content.split("\n")) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      section = (Object.keys(MEMORY_SECTIONS) as MemorySection[]).find(
+        (key) => MEMORY_SECTIONS[key].toLowerCase() === heading[1].toLowerCase()
+      );
+      continue;
+    }
+    const bullet = line.match(/^[-*]\s+(.+?)\s*$/);
+    if (section && bullet) entries[section].push(bullet[1]);
+  }
+
+  return entries;
+}
+
+/**
+ * Add or remove one entry, editing the file in place so whatever else users
+ * wrote in it stays as it is. Adding an entry that is already there is a
+ * no-op.
+ */
+export function updateMemory(
+  section: MemorySection,
+  action: "add" | "remove",
+  entry: string
+): string[] {
+  const lines = loadMemory().replace(/\n+$/, "").split("\n");
+  const title = MEMORY_SECTIONS[section];
+  let start = lines.findIndex(
+    (line) => line.trim().toLowerCase() === `## ${title.toLowerCase()}`
+  );
+  if (start === -1) {
+    lines.push("", `## ${title}`);
+    start = lines.length - 1;
+  }
+
+  // The section runs until the next heading
+  let end = lines.findIndex((line, i) => i > start && /^#{1,2}\s/.test(line));
+  if (end === -1) end = lines.length;
+
+  const index = lines.findIndex(
+    (line, i) =>
+      i > start && i < end && line.replace(/^[-*]\s+/, "").trim() === entry
+  );
+
+  if (action === "add" && index === -1) {
+    // After the section's last non-empty line
+    let insertAt = end;
+    while (insertAt - 1 > start && !lines[insertAt - 1].trim()) insertAt--;
+    lines.splice(insertAt, 0, `- ${entry}`);
+  } else if (action === "remove" && index !== -1) {
+    lines.splice(index, 1);
+  }
+
+  const content = lines.join("\n");
+  saveMemory(content);
+  return readMemoryEntries(content)[section];
+}
+
+// `canUpdate` when the agent has the update_project_memory tool
+export function formatMemoryForPrompt(canUpdate = false): string {
+  const entries = readMemoryEntries();
+  const sections = (Object.keys(MEMORY_SECTIONS) as MemorySection[])
+    .filter((section) => entries[section].length > 0)
+    .map(
+      (section) =>
+        `${MEMORY_SECTIONS[section]}:\n${entries[section]
+          .map((entry) => `- ${entry}`)
+          .join("\n")}`
+    );
+
+  const memory = `**Project Memory** (learned in earlier runs; follow it unless the user says otherwise)
+
+${sections.length > 0 ? sections.join("\n\n") : "- nothing recorded yet"}`;
+
+  return canUpdate
+    ? `${memory}
+
+Record new conventions, decisions and what you built with update_project_memory, so later runs don't have to rediscover them.`
+    : memory;
+}
@@ -0,0 +1,245 @@
+import { createAgent, type DatabaseAgentOptions } from "./core";
+import { createPlan, type AgentPlan } from "./planner";
+import { loadAgentConfig } from "./config";
+import { classifyError } from "./errors";
+import { resolveModel } from "./providers";
+import {
+  createUsageTracker,
+  findPrice,
+  mergeUsageReports,
+  PLAN_USAGE,
+} from "./usage";
+import { hookFilePath, toHookName } from "./tools/api-tools";
+import type {
+  DelegatedTask,
+  DelegatedTaskResult,
+  DelegationReport,
+  SubAgentRole,
+} from "../types";
+
+// Specialized profile for each kind of sub-agent, in the order they run
+export const SUB_AGENT_PROFILES: Record<SubAgentRole, string> = {
+  schema: "schema-only",
+  api: "api-only",
+  frontend: "frontend-only",
+};
+
+const ROLES = Object.keys(SUB_AGENT_PROFILES) as SubAgentRole[];
+
+// A task together with the slice of the plan its sub-agent may carry out
+export interface ScopedTask extends DelegatedTask {
+  plan: AgentPlan;
+}
+
+function toEndpoint(entity: string, plan: AgentPlan): string {
+  const kebab = entity.replace(/_/g, "-");
+  const route = plan.files
+    .map((file) => file.path.match(/app\/api\/([^/]+)\/route\.ts$/)?.[1])
+    .find((endpoint) => endpoint === kebab || endpoint === entity);
+  return route ?? kebab;
+}
+
+function scopeTask(
+  role: SubAgentRole,
+  entity: AgentPlan["entities"][number],
+  plan: AgentPlan
+): ScopedTask {
+  const endpoint = toEndpoint(entity.name, plan);
+  const routePath = `src/app/api/${endpoint}/route.ts`;
+  const hookPath = hookFilePath(endpoint);
+  const task = {
+    role,
+    entity: entity.name,
+    profile: SUB_AGENT_PROFILES[role],
+  };
+  const slice: AgentPlan = {
+    summary: "",
+    entities: [],
+    files: [],
+    migrations: [],
+    components: [],
+  };
+
+  switch (role) {
+    case "schema":
+      return {
+        ...task,
+        prompt: `Create the ${entity.name} table (${entity.description}), then generate and apply its migrations.`,
+        plan: {
+          ...slice,
+          summary: `Create the ${entity.name} table and migrate`,
+          entities: [entity],
+          migrations: plan.migrations,
+        },
+      };
+
+    case "api":
+      return {
+        ...task,
+        prompt: `Create the API route /api/${endpoint} for the existing ${entity.name} table (src/database/schemas/${entity.name}.ts).`,
+        plan: {
+          ...slice,
+          summary: `Create the /api/${endpoint} route`,
+          files: [
+            { path: routePath, action: "create", purpose: "API route" },
+            // Shared API types may be updated along with the route
+            ...plan.files.filter((file) => /(^|\/)types\//.test(file.path)),
+          ],
+        },
+      };
+
+    case "frontend":
+      return {
+        ...task,
+        prompt: `Create the ${toHookName(
+          endpoint
+        )} hook for the existing /api/${endpoint} route and the ${
+          entity.name
+        } table. Then wire it into the components that show ${entity.description.toLowerCase()}, replacing their static data. Only touch components that display this data.`,
+        plan: {
+          ...slice,
+          summary: `Create the ${toHookName(endpoint)} hook and integrate it`,
+          files: [
+            { path: hookPath, action: "create", purpose: "Client hook" },
+            ...plan.components.map((component) => ({
+              path: component.path,
+              action: "edit" as const,
+              purpose: `Use ${toHookName(endpoint)} where it shows ${
+                entity.name
+              }`,
+            })),
+          ],
+          components: plan.components,
+        },
+      };
+  }
+}
+
+/**
+ * Split a plan into entity-scoped tasks: every entity gets its schema first,
+ * then its API route, then its hook and component wiring.
+ */
+export function planTasks(plan: AgentPlan): ScopedTask[] {
+  const needsApi = plan.files.some((file) => /app\/api\//.test(file.path));
+  const needsFrontend = plan.components.length > 0;
+
+  return ROLES.filter(
+    (role) =>
+      role === "schema" ||
+      (role === "api" && needsApi) ||
+      (role === "frontend" && needsFrontend)
+  ).flatMap((role) =>
+    plan.entities.map((entity) => scopeTask(role, entity, plan))
+  );
+}
+
+/**
+ * Orchestrate a request through specialized sub-agents. Each task is its own
+ * run with a focused prompt, tool set and step budget; the tasks of an entity
+ * are skipped once one of them fails. A shared budget covers all tasks.
+ */
+export async function delegate(
+  prompt: string,
+  options: DatabaseAgentOptions = {}
+): Promise<DelegationReport> {
+  const emit = options.onEvent ?? (() => {});
+  const { plan, usage: planUsage } = options.plan
+    ? { plan: options.plan, usage: options.planUsage }
+    : await createPlan(prompt, options);
+  const tasks = planTasks(plan);
+  if (tasks.length === 0) {
+    throw new Error(
+      "The request names no tables to delegate. Run it without --delegate instead."
+    );
+  }
+
+  const config = loadAgentConfig();
+  const maxTokens = options.budget?.maxTokens ?? config.budget?.maxTokens;
+  const maxCost = options.budget?.maxCost ?? config.budget?.maxCost;
+
+  // The planning call comes out of the shared budget too
+  const planTracker = createUsageTracker({
+    price: findPrice(resolveModel(options.model).spec),
+  });
+  if (planUsage) planTracker.recordCall(PLAN_USAGE, planUsage);
+  const planReport = planTracker.report();
+
+  const results: DelegatedTaskResult[] = [];
+  const failedEntities = new Set<string>();
+  let usedTokens = planReport.total.totalTokens;
+  let spent = planReport.cost ?? 0;
+
+  for (const [index, { plan: slice, ...task }] of tasks.entries()) {
+    const remaining = {
+      maxTokens: maxTokens === undefined ? undefined : maxTokens - usedTokens,
+      maxCost: maxCost === undefined ? undefined : maxCost - spent,
+    };
+
+    let result: DelegatedTaskResult;
+    if (failedEntities.has(task.entity)) {
+      result = {
+        ...task,
+        status: "skipped",
+        error: `An earlier task for ${task.entity} failed`,
+      };
+    } else if (
+      (remaining.maxTokens ?? Infinity) <= 0 ||
+      (remaining.maxCost ?? Infinity) <= 0
+    ) {
+      result = { ...task, status: "skipped", error: "Budget exhausted" };
+    } else {
+      emit({ type: "task-start", task, index, total: tasks.length });
+      try {
+        const output = await createAgent({
+          profile: task.profile,
+          model: options.model,
+        }).run(task.prompt, {
+          // Sub-agents are held to their own slice of the plan
+          plan: slice,
+          onEvent: options.onEvent,
+          verify: options.verify,
+          approve: options.approve,
+          budget: remaining,
+        });
+        usedTokens += output.usage.total.totalTokens;
+        spent += output.usage.cost ?? 0;
+        result = {
+          ...task,
+          status: "completed",
+          runId: output.runId,
+          response: output.response,
+          stageReached: output.workflow?.stageReached,
+          usage: output.usage,
+          changes: output.changes,
+          warnings: output.warnings,
+          verification: output.verification,
+          violations: output.violations,
+        };
+      } catch (error) {
+        const failure = classifyError(error);
+        failedEntities.add(task.entity);
+        // What a failed task spent still counts towards the shared budget
+        usedTokens += failure.usage?.total.totalTokens ?? 0;
+        spent += failure.usage?.cost ?? 0;
+        result = {
+          ...task,
+          status: "failed",
+          usage: failure.usage,
+          error: failure.message,
+          code: failure.code,
+        };
+      }
+    }
+
+    results.push(result);
+    emit({ type: "task-finish", result });
+  }
+
+  return {
+    tasks: results,
+    usage: mergeUsageReports([
+      ...(planUsage ? [planReport] : []),
+      ...results.flatMap((result) => (result.usage ? [result.usage] : [])),
+    ]),
+  };
+}
@@ -0,0 +1,121 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { buildSystemPrompt } from "./prompts/templates";
+import { resolveModel } from "./providers";
+import { loadRetrySettings, retryModel } from "./retry";
+import { getToolTargets, normalizeProjectPath } from "./tool-targets";
+import { toTokenUsage } from "./usage";
+import type { ToolMiddleware } from "./tool-middleware";
+import type { TokenUsage } from "../types";
+
+export const agentPlanSchema = z.object({
+  summary: z.string().describe("One or two sentences describing the change"),
+  entities: z
+    .array(
+      z.object({
+        name: z.string().describe("snake_case table name"),
+        description: z.string(),
+        fields: z.array(
+          z.object({
+            name: z.string(),
+            type: z.string(),
+            constraints: z.array(z.string()).optional(),
+          })
+        ),
+      })
+    )
+    .describe("Tables to create"),
+  files: z
+    .array(
+      z.object({
+        path: z.string().describe("Project-relative file path"),
+        action: z.enum(["create", "edit"]),
+        purpose: z.string(),
+      })
+    )
+    .describe("Files that will be written or edited"),
+  migrations: z
+    .array(z.enum(["generate", "migrate", "push"]))
+    .describe("Drizzle Kit actions to run, in order"),
+  components: z
+    .array(
+      z.object({
+        path: z.string().describe("Path to the React component"),
+        hookName: z.string().describe("Hook the component will use"),
+      })
+    )
+    .describe("Existing components to integrate with the new API"),
+});
+
+export type AgentPlan = z.infer<typeof agentPlanSchema>;
+
+export interface PlanResult {
+  plan: AgentPlan;
+  // Tokens the planning call spent, to count towards the run's usage
+  usage: TokenUsage;
+}
+
+export async function createPlan(
+  prompt: string,
+  options: { model?: string } = {}
+): Promise<PlanResult> {
+  const { model } = resolveModel(options.model);
+
+  const { object, usage } = await generateObject({
+    model: retryModel(model, loadRetrySettings().model),
+    maxRetries: 0,
+    schema: agentPlanSchema,
+    system: buildSystemPrompt("PLANNER"),
+    prompt,
+  });
+
+  return { plan: object, usage: toTokenUsage(usage) };
+}
+
+export function formatPlanForPrompt(plan: AgentPlan): string {
+  return `The user approved the following plan. Carry it out exactly: only write the listed files, only run the listed migrations and only integrate the listed components. Tool calls outside the plan will be refused.
+
+${JSON.stringify(plan, null, 2)}`;
+}
+
+function plannedPaths(plan: AgentPlan): Set<string> {
+  const paths = [
+    ...plan.files.map((file) => file.path),
+    ...plan.entities.map((entity) => `src/database/schemas/${entity.name}.ts`),
+    ...plan.components.map((component) => component.path),
+  ];
+
+  // Hook files are lowercased by the generator, so compare case-insensitively
+  return new Set(paths.map((p) => normalizeProjectPath(p).toLowerCase()));
+}
+
+// Refuses any tool call that would write a file or run a migration the
+// approved plan does not mention.
+export function enforcePlan(plan: AgentPlan): ToolMiddleware {
+  const allowedPaths = plannedPaths(plan);
+
+  return async (call, next) => {
+    const targets = getToolTargets(call.toolName, call.input);
+
+    if (targets.migration && !plan.migrations.includes(targets.migration)) {
+      return {
+        success: false,
+        refused: true,
+        error: `Migration action "${targets.migration}" is not part of the approved plan`,
+      };
+    }
+
+    const outsidePlan = targets.writes.filter(
+      (target) => !allowedPaths.has(target.toLowerCase())
+    );
+    if (outsidePlan.length > 0) {
+      return {
+        success: false,
+        refused: true,
+        error: `Not part of the approved plan: ${outsidePlan.join(", ")}`,
+      };
+    }
+
+    return next();
+  };
+}
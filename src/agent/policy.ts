@@ -0,0 +1,168 @@
+import { minimatch } from "minimatch";
+import { loadAgentConfig } from "./config";
+import { toProjectPath } from "./sandbox";
+import { getToolTargets } from "./tool-targets";
+import { isToolSuccess, type ToolMiddleware } from "./tool-middleware";
+import type { PolicyViolation, ToolPolicy } from "../types";
+
+// Rules under "*" apply to every tool
+export const ANY_TOOL = "*";
+
+// Project files the agent must never rewrite and migration actions that
+// bypass migration files. `policy` in agent.config.json replaces these
+// per tool name.
+export const DEFAULT_POLICY: Record<string, ToolPolicy> = {
+  [ANY_TOOL]: {
+    denyPaths: [
+      "package.json",
+      "package-lock.json",
+      "next.config.*",
+      "tsconfig.json",
+      ".env*",
+      ".git/**",
+      "node_modules/**",
+    ],
+  },
+  run_migration: { migrations: ["generate", "migrate"] },
+};
+
+export function loadPolicy(): Record<string, ToolPolicy> {
+  return { ...DEFAULT_POLICY, ...loadAgentConfig().policy };
+}
+
+function matches(filePath: string, globs: string[]) {
+  return globs.some((glob) => minimatch(filePath, glob, { dot: true }));
+}
+
+/**
+ * Enforce the tool policy before a tool executes. Calls that break a rule are
+ * not run; the model gets a refusal naming the rule instead, and
+ * `onViolation` is told about it for the run report.
+ *
+ * maxWrites under "*" caps the files written by all tools of a run together,
+ * under a tool name only that tool's writes.
+ */
+export function enforcePolicy(
+  policy: Record<string, ToolPolicy>,
+  onViolation: (violation: PolicyViolation) => void = () => {}
+): ToolMiddleware {
+  const writesByTool = new Map<string, number>();
+
+  return async (call, next) => {
+    const targets = getToolTargets(call.toolName, call.input);
+    const rules = [policy[ANY_TOOL], policy[call.toolName]].filter(
+      (rule): rule is ToolPolicy => rule !== undefined
+    );
+
+    const refuse = (
+      rule: PolicyViolation["rule"],
+      message: string,
+      paths?: string[]
+    ) => {
+      const violation: PolicyViolation = {
+        toolName: call.toolName,
+        toolCallId: call.toolCallId,
+        rule,
+        message,
+        paths,
+      };
+      onViolation(violation);
+      return {
+        success: false,
+        refused: true,
+        error: `Refused by policy: ${message}`,
+        policy: { rule, paths },
+      };
+    };
+
+    // No tool writes outside the project, whatever the rules say
+    const outside = targets.writes.filter(
+      (target) => toProjectPath(target) === undefined
+    );
+    if (outside.length > 0) {
+      return refuse(
+        "outside-project",
+        `${call.toolName} may not write outside the project: ${outside.join(
+          ", "
+        )}`,
+        outside
+      );
+    }
+
+    for (const rule of rules) {
+      const denied = targets.writes.filter((target) =>
+        matches(target, rule.denyPaths ?? [])
+      );
+      if (denied.length > 0) {
+        return refuse(
+          "deny-path",
+          `${call.toolName} may not write ${denied.join(", ")}`,
+          denied
+        );
+      }
+
+      const allowPaths = rule.allowPaths;
+      const notAllowed = allowPaths
+        ? targets.writes.filter((target) => !matches(target, allowPaths))
+        : [];
+      if (notAllowed.length > 0) {
+        return refuse(
+          "allow-path",
+          `${call.toolName} may only write ${allowPaths!.join(
+            ", "
+          )}, not ${notAllowed.join(", ")}`,
+          notAllowed
+        );
+      }
+
+      if (
+        targets.migration &&
+        rule.migrations &&
+        !rule.migrations.includes(targets.migration)
+      ) {
+        return refuse(
+          "migration",
+          `Migration action "${
+            targets.migration
+          }" is not allowed; allowed actions: ${
+            rule.migrations.join(", ") || "none"
+          }`
+        );
+      }
+    }
+
+    const scopes = [ANY_TOOL, call.toolName].filter((scope) => policy[scope]);
+    if (targets.writes.length > 0) {
+      for (const scope of scopes) {
+        const { maxWrites } = policy[scope];
+        const written = writesByTool.get(scope) ?? 0;
+        if (
+          maxWrites !== undefined &&
+          written + targets.writes.length > maxWrites
+        ) {
+          return refuse(
+            "max-writes",
+            `${
+              scope === ANY_TOOL ? "The run" : call.toolName
+            } already wrote ${written} of at most ${maxWrites} file(s)`,
+            targets.writes
+          );
+        }
+      }
+    }
+
+    const output = await next();
+
+    // Only writes that happened count towards the limits
+    if (isToolSuccess(output)) {
+      for (const scope of [ANY_TOOL, call.toolName]) {
+        writesByTool.set(
+          scope,
+          (writesByTool.get(scope) ?? 0) + targets.writes.length
+        );
+      }
+    }
+
+    return output;
+  };
+}
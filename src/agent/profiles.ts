@@ -0,0 +1,138 @@
+import type { PromptName } from "./prompts/templates";
+import { WORKFLOW_STAGES } from "./workflow";
+import type { WorkflowStage } from "../types";
+
+export const DEFAULT_PROFILE = "full-stack";
+
+export interface AgentProfile {
+  name: string;
+  description: string;
+  // Names of the tools the agent gets, see `agentTools` in core.ts
+  tools: string[];
+  // Template the system prompt is rendered from, see prompts/templates.ts
+  prompt: PromptName;
+  // Upper bound on model steps per turn
+  maxSteps: number;
+  // Workflow stages the profile runs through. Without stages the agent just
+  // answers with the tools it has.
+  stages?: WorkflowStage[];
+  // Read-only profiles never write, so runs are neither recorded nor verified
+  readOnly?: boolean;
+}
+
+const READ_TOOLS = [
+  "list_files",
+  "read_file",
+  "search_code",
+  "analyze_project_structure",
+  "analyze_request",
+  "analyze_component_data_usage",
+];
+
+const profiles = new Map<string, AgentProfile>();
+
+export function registerProfile(profile: AgentProfile) {
+  profiles.set(profile.name, profile);
+}
+
+export function listProfiles(): AgentProfile[] {
+  return Array.from(profiles.values());
+}
+
+export function getProfile(name: string = DEFAULT_PROFILE): AgentProfile {
+  const profile = profiles.get(name);
+  if (!profile) {
+    throw new Error(
+      `Unknown profile "${name}". Available profiles: ${Array.from(
+        profiles.keys()
+      ).join(", ")}`
+    );
+  }
+  return profile;
+}
+
+registerProfile({
+  name: "full-stack",
+  description: "Schemas, migrations, API routes, hooks and component wiring",
+  tools: [
+    ...READ_TOOLS,
+    "edit_file",
+    "create_schema",
+    "create_multiple_schemas",
+    "create_database_connection",
+    "run_migration",
+    "seed_database",
+    "create_api_endpoint",
+    "update_api_types",
+    "create_api_client_hook",
+    "create_custom_hook",
+    "integrate_api_with_component",
+    "update_component_types",
+    "update_project_memory",
+    "finish_stage",
+  ],
+  prompt: "DATABASE_AGENT",
+  maxSteps: 15,
+  stages: WORKFLOW_STAGES,
+});
+
+registerProfile({
+  name: "schema-only",
+  description: "Drizzle schemas and migrations, no API or UI changes",
+  tools: [
+    ...READ_TOOLS,
+    "edit_file",
+    "create_schema",
+    "create_multiple_schemas",
+    "create_database_connection",
+    "run_migration",
+    "update_project_memory",
+    "finish_stage",
+  ],
+  prompt: "SCHEMA_AGENT",
+  maxSteps: 10,
+  stages: ["analyze", "schema", "generate_migration", "migrate"],
+});
+
+registerProfile({
+  name: "api-only",
+  description: "API routes and shared types for tables that already exist",
+  tools: [
+    ...READ_TOOLS,
+    "edit_file",
+    "create_api_endpoint",
+    "update_api_types",
+    "update_project_memory",
+    "finish_stage",
+  ],
+  prompt: "API_AGENT",
+  maxSteps: 8,
+  stages: ["api"],
+});
+
+registerProfile({
+  name: "frontend-only",
+  description: "Client hooks and component integration for existing API routes",
+  tools: [
+    ...READ_TOOLS,
+    "edit_file",
+    "create_api_client_hook",
+    "create_custom_hook",
+    "integrate_api_with_component",
+    "update_component_types",
+    "update_project_memory",
+    "finish_stage",
+  ],
+  prompt: "FRONTEND_AGENT",
+  maxSteps: 10,
+  stages: ["hook", "integrate"],
+});
+
+registerProfile({
+  name: "read-only",
+  description: "Analyst that explores the project and answers questions",
+  tools: READ_TOOLS,
+  prompt: "ANALYST",
+  maxSteps: 8,
+  readOnly: true,
+});
@@ -0,0 +1,161 @@
+import path from "path";
+import { workspace } from "./workspace";
+
+export const SCHEMAS_DIR = "src/database/schemas";
+export const API_DIR = "src/app/api";
+export const HOOKS_DIR = "src/hooks";
+export const COMPONENTS_DIR = "src/components";
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+export interface ProjectContext {
+  tables: { name: string; file: string; columns: string[] }[];
+  routes: { endpoint: string; file: string; methods: string[] }[];
+  hooks: { name: string; file: string }[];
+  components: { name: string; file: string; props: string }[];
+}
+
+function listDir(dir: string): string[] {
+  if (!workspace.exists(dir)) return [];
+  return workspace.readdir(dir).map((entry) => path.join(dir, entry));
+}
+
+// Overlay-only directories have no stat, so go by what's inside them. Empty
+// directories hold nothing worth describing anyway.
+function isDirectory(entry: string) {
+  try {
+    return workspace.readdir(entry).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// The text between the brace at `start` and its matching closing brace
+function braceBody(content: string, start: number): string {
+  let depth = 0;
+  for (let i = start; i < content.length; i++) {
+    if (content[i] === "{") depth++;
+    else if (content[i] === "}" && --depth === 0) {
+      return content.slice(start + 1, i);
+    }
+  }
+  return content.slice(start + 1);
+}
+
+function readTables(): ProjectContext["tables"] {
+  return listDir(SCHEMAS_DIR)
+    .filter((file) => file.endsWith(".ts"))
+    .flatMap((file) => {
+      const content = workspace.readFile(file);
+      const tables = content.matchAll(/pgTable\(\s*['"`](\w+)['"`]\s*,\s*\{/g);
+
+      return Array.from(tables, (match) => {
+        const body = braceBody(content, match.index! + match[0].length - 1);
+        const columns = Array.from(
+          body.matchAll(/^\s*(\w+):\s*(\w+)\(/gm),
+          ([, column, type]) => `${column} ${type}`
+        );
+        return { name: match[1], file, columns };
+      });
+    });
+}
+
+function readRoutes(dir = API_DIR): ProjectContext["routes"] {
+  return listDir(dir).flatMap((entry) => {
+    if (isDirectory(entry)) return readRoutes(entry);
+    if (!/route\.(ts|js)$/.test(entry)) return [];
+
+    const content = workspace.readFile(entry);
+    const methods = HTTP_METHODS.filter((method) =>
+      new RegExp(
+        `export\\s+(async\\s+function|function|const)\\s+${method}\\b`
+      ).test(content)
+    );
+    const endpoint = `/${path
+      .relative("src/app", path.dirname(entry))
+      .split(path.sep)
+      .join("/")}`;
+    return [{ endpoint, file: entry, methods }];
+  });
+}
+
+function readHooks(): ProjectContext["hooks"] {
+  return listDir(HOOKS_DIR)
+    .filter((file) => /\.(ts|tsx)$/.test(file))
+    .flatMap((file) =>
+      Array.from(
+        workspace
+          .readFile(file)
+          .matchAll(/export\s+(?:function|const)\s+(use\w+)/g),
+        ([, name]) => ({ name, file })
+      )
+    );
+}
+
+function readComponentProps(): ProjectContext["components"] {
+  return listDir(COMPONENTS_DIR)
+    .filter((file) => file.endsWith(".tsx"))
+    .flatMap((file) => {
+      const content = workspace.readFile(file);
+      return Array.from(
+        content.matchAll(/interface\s+(\w+Props)\s*\{/g),
+        (match) => ({
+          name: match[1],
+          file,
+          props: braceBody(content, match.index! + match[0].length - 1)
+            .split("\n")
+            .map((line) => line.trim().replace(/[;,]$/, ""))
+            .filter(Boolean)
+            .join("; "),
+        })
+      );
+    });
+}
+
+/**
+ * Snapshot of what already exists in the project, so the agent starts a run
+ * informed instead of rediscovering it with list_files and read_file.
+ */
+export function buildProjectContext(): ProjectContext {
+  return {
+    tables: readTables(),
+    routes: readRoutes(),
+    hooks: readHooks(),
+    components: readComponentProps(),
+  };
+}
+
+export function formatProjectContext(context: ProjectContext): string {
+  const section = (title: string, lines: string[]) =>
+    `${title}:\n${lines.length > 0 ? lines.join("\n") : "- none yet"}`;
+
+  return `**Existing Project State** (do not recreate what is listed here; edit it instead)
+
+${section(
+  "Tables",
+  context.tables.map(
+    (table) => `- ${table.name} (${table.file}): ${table.columns.join(", ")}`
+  )
+)}
+
+${section(
+  "API routes",
+  context.routes.map(
+    (route) =>
+      `- ${route.endpoint} [${route.methods.join(", ")}] (${route.file})`
+  )
+)}
+
+${section(
+  "Hooks",
+  context.hooks.map((hook) => `- ${hook.name} (${hook.file})`)
+)}
+
+${section(
+  "Component props",
+  context.components.map(
+    (component) =>
+      `- ${component.name} (${component.file}): { ${component.props} }`
+  )
+)}`;
+}
@@ -0,0 +1,259 @@
+import ignore, { type Ignore } from "ignore";
+import { workspace } from "./workspace";
+import { findDeniedPattern, loadSandboxDenyPaths } from "./sandbox";
+
+// Extra ignore rules for the agent only, in .gitignore syntax. For files
+// that belong in git but are noise to the agent, like generated clients.
+export const AGENT_IGNORE_FILE = ".agentignore";
+
+export const DEFAULT_TREE_DEPTH = 3;
+// Folders with more entries than this are summarised rather than expanded
+// when listed as part of a larger tree, e.g. src/components/ui
+export const COLLAPSE_THRESHOLD = 30;
+// Keeps one listing from filling the context window
+const MAX_TREE_ENTRIES = 400;
+// Line counts of bigger files are not worth reading them for
+const MAX_COUNTED_BYTES = 1_000_000;
+// Most characters one read returns, about 4k tokens
+export const MAX_READ_CHARS = 16000;
+
+export interface ProjectEntry {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+}
+
+export interface LineRange {
+  output: string;
+  totalLines: number;
+  startLine: number;
+  // Last line included, less than asked for when the output was cut short
+  endLine: number;
+  // Set when the output is not everything that was asked for
+  truncated: boolean;
+  // A line longer than the cap on its own, included only in part
+  clippedLine?: number;
+  // Where to read on from when lines were left out
+  nextLine?: number;
+}
+
+export interface ProjectTree {
+  output: string;
+  files: number;
+  directories: number;
+  // Entries left out by the ignore files
+  ignored: number;
+  truncated: boolean;
+}
+
+// The project's .gitignore and .agentignore rules, plus .git itself
+export function loadIgnoreRules(): Ignore {
+  const rules = ignore().add(".git");
+  for (const file of [".gitignore", AGENT_IGNORE_FILE]) {
+    if (workspace.exists(file)) rules.add(workspace.readFile(file));
+  }
+  return rules;
+}
+
+// NUL bytes do not occur in text files
+export function isBinaryContent(content: string): boolean {
+  return content.slice(0, 8000).includes("\u0000");
+}
+
+export function countLines(content: string): number {
+  if (content === "") return 0;
+  const lines = content.split("\n").length;
+  return content.endsWith("\n") ? lines - 1 : lines;
+}
+
+/**
+ * Lines `startLine` to `endLine` (1-based, inclusive) of a text, each
+ * prefixed with its number unless `lineNumbers` is false. Stops early, at a
+ * line boundary, once the output would go over `maxChars`.
+ */
+export function readLines(
+  content: string,
+  {
+    startLine = 1,
+    endLine,
+    lineNumbers = true,
+    maxChars = MAX_READ_CHARS,
+  }: {
+    startLine?: number;
+    endLine?: number;
+    lineNumbers?: boolean;
+    maxChars?: number;
+  } = {}
+): LineRange {
+  const lines = content.split("\n");
+  if (content.endsWith("\n")) lines.pop();
+  const totalLines = lines.length;
+  const last = Math.min(endLine ?? totalLines, totalLines);
+  const width = String(last).length;
+
+  const output: string[] = [];
+  let chars = 0;
+  let clippedLine: number | undefined;
+  let line = startLine;
+  for (; line <= last; line++) {
+    let text = lines[line - 1];
+    if (lineNumbers) text = `${String(line).padStart(width)}\t${text}`;
+    if (chars + text.length + 1 > maxChars) {
+      // A single line longer than the cap, e.g. minified code, is clipped
+      if (output.length === 0) {
+        output.push(text.slice(0, maxChars));
+        clippedLine = line;
+        line++;
+      }
+      break;
+    }
+    output.push(text);
+    chars += text.length + 1;
+  }
+
+  return {
+    output: output.join("\n"),
+    totalLines,
+    startLine,
+    endLine: line - 1,
+    truncated: clippedLine !== undefined || line <= last,
+    ...(clippedLine !== undefined && { clippedLine }),
+    ...(line <= last && { nextLine: line }),
+  };
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * The entries of a directory that are neither ignored nor protected by the
+ * sandbox, directories first. Goes through the workspace, so dry runs see
+ * their pending files.
+ */
+export function readProjectDir(
+  dir: string,
+  rules: Ignore = loadIgnoreRules(),
+  denyPaths: string[] = loadSandboxDenyPaths()
+): { entries: ProjectEntry[]; ignored: number } {
+  const entries: ProjectEntry[] = [];
+  let ignored = 0;
+
+  for (const name of workspace.readdir(dir)) {
+    const entryPath = dir === "." ? name : `${dir}/${name}`;
+    const isDirectory = workspace.isDirectory(entryPath);
+    // Protected entries are left out rather than listed and refused
+    if (findDeniedPattern(entryPath, denyPaths)) continue;
+    // Directory-only rules like "/.next/" need the trailing slash
+    if (rules.ignores(isDirectory ? `${entryPath}/` : entryPath)) {
+      ignored++;
+      continue;
+    }
+    entries.push({ name, path: entryPath, isDirectory });
+  }
+
+  entries.sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory));
+  return { entries, ignored };
+}
+
+/**
+ * Every file under `dir` that is neither ignored nor protected by the
+ * sandbox, as project-relative paths.
+ */
+export function listProjectFiles(
+  dir: string = ".",
+  rules: Ignore = loadIgnoreRules(),
+  denyPaths: string[] = loadSandboxDenyPaths()
+): string[] {
+  const files: string[] = [];
+
+  const visit = (current: string) => {
+    for (const entry of readProjectDir(current, rules, denyPaths).entries) {
+      if (entry.isDirectory) visit(entry.path);
+      else files.push(entry.path);
+    }
+  };
+
+  visit(dir);
+  return files;
+}
+
+function describeFile(filePath: string): string {
+  const size = workspace.size(filePath);
+  if (size > MAX_COUNTED_BYTES) return formatSize(size);
+  const content = workspace.readFile(filePath);
+  if (isBinaryContent(content)) return `${formatSize(size)}, binary`;
+  return `${formatSize(size)}, ${plural(countLines(content), "line")}`;
+}
+
+/**
+ * An indented tree of `dir` down to `depth` levels, directories marked with
+ * a trailing slash and files with their size and line count. Directories
+ * below the depth limit, and big ones inside the tree, only show how many
+ * entries they hold.
+ */
+export function buildProjectTree(
+  dir: string = ".",
+  depth: number = DEFAULT_TREE_DEPTH
+): ProjectTree {
+  const rules = loadIgnoreRules();
+  const denyPaths = loadSandboxDenyPaths();
+  const lines: string[] = [];
+  const tree: ProjectTree = {
+    output: "",
+    files: 0,
+    directories: 0,
+    ignored: 0,
+    truncated: false,
+  };
+
+  const visit = (current: string, level: number) => {
+    const { entries, ignored } = readProjectDir(current, rules, denyPaths);
+    tree.ignored += ignored;
+    const indent = "  ".repeat(level);
+
+    for (const entry of entries) {
+      if (lines.length >= MAX_TREE_ENTRIES) {
+        tree.truncated = true;
+        return;
+      }
+
+      if (!entry.isDirectory) {
+        tree.files++;
+        lines.push(`${indent}${entry.name} (${describeFile(entry.path)})`);
+        continue;
+      }
+
+      tree.directories++;
+      const count = readProjectDir(entry.path, rules, denyPaths).entries.length;
+      if (level + 1 >= depth) {
+        lines.push(
+          `${indent}${entry.name}/ (${plural(count, "entry", "entries")})`
+        );
+      } else if (count > COLLAPSE_THRESHOLD) {
+        lines.push(
+          `${indent}${entry.name}/ (${plural(count, "entry", "entries")}, collapsed)`
+        );
+      } else {
+        lines.push(`${indent}${entry.name}/`);
+        visit(entry.path, level + 1);
+      }
+    }
+  };
+
+  // A single file lists as itself
+  if (dir !== "." && !workspace.isDirectory(dir)) {
+    tree.files = 1;
+    lines.push(`${dir} (${describeFile(dir)})`);
+  } else {
+    visit(dir, 0);
+  }
+  tree.output = lines.join("\n");
+  return tree;
+}
@@ -0,0 +1,140 @@
+import fs from "fs";
+import path from "path";
+import { SYSTEM_PROMPTS } from "./system-prompts";
+import { loadAgentConfig } from "../config";
+import { workspace } from "../workspace";
+import {
+  API_DIR,
+  COMPONENTS_DIR,
+  HOOKS_DIR,
+  SCHEMAS_DIR,
+  buildProjectContext,
+  formatProjectContext,
+} from "../project-context";
+import { formatMemoryForPrompt } from "../memory";
+
+export const PROMPTS_DIR = ".agent/prompts";
+
+export type PromptName = keyof typeof SYSTEM_PROMPTS;
+
+export const PROMPT_NAMES = Object.keys(SYSTEM_PROMPTS) as PromptName[];
+
+// DATABASE_AGENT is overridden by database-agent.md
+export function promptFileName(name: PromptName): string {
+  return `${name.toLowerCase().replace(/_/g, "-")}.md`;
+}
+
+export function findPromptName(fileOrName: string): PromptName | undefined {
+  return PROMPT_NAMES.find(
+    (name) =>
+      name === fileOrName ||
+      promptFileName(name) === fileOrName ||
+      promptFileName(name) === `${fileOrName}.md`
+  );
+}
+
+// Path of the project's own template, if it has one
+export function projectPromptPath(name: PromptName): string | undefined {
+  const dir = loadAgentConfig().prompts?.dir ?? PROMPTS_DIR;
+  const filePath = path.join(dir, promptFileName(name));
+  return fs.existsSync(filePath) ? filePath : undefined;
+}
+
+function readProjectName(): string {
+  try {
+    const { name } = JSON.parse(fs.readFileSync("package.json", "utf-8"));
+    if (name) return name;
+  } catch {
+    // No package.json; fall back to the directory name
+  }
+  return path.basename(process.cwd());
+}
+
+function formatList(entries: [string, string | undefined][]): string {
+  if (entries.length === 0) return "- none";
+  return entries
+    .map(([name, description]) =>
+      description ? `- ${name}: ${description}` : `- ${name}`
+    )
+    .join("\n");
+}
+
+/**
+ * Values for the {{variables}} of prompt templates. Components are detected
+ * from the project; everything else comes from `project` in
+ * agent.config.json, plus any extra `prompts.variables`.
+ */
+export function buildPromptVariables(): Record<string, string> {
+  const config = loadAgentConfig();
+  const project = config.project ?? {};
+  const components = workspace.exists(COMPONENTS_DIR)
+    ? workspace.readdir(COMPONENTS_DIR).filter((file) => file.endsWith(".tsx"))
+    : [];
+
+  return {
+    projectName: project.name ?? readProjectName(),
+    projectDescription: project.description ?? "",
+    dialect: project.dialect ?? "PostgreSQL",
+    schemasDir: SCHEMAS_DIR,
+    apiDir: API_DIR,
+    hooksDir: HOOKS_DIR,
+    componentsDir: COMPONENTS_DIR,
+    components: formatList(
+      components.map((file) => [file, project.components?.[file]])
+    ),
+    entities: formatList(Object.entries(project.entities ?? {})),
+    ...config.prompts?.variables,
+  };
+}
+
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string>,
+  source = "prompt template"
+): string {
+  return (
+    template
+      .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+        if (!(key in variables)) {
+          throw new Error(
+            `Unknown variable {{${key}}} in ${source}. Available variables: ${Object.keys(
+              variables
+            ).join(", ")}`
+          );
+        }
+        return variables[key];
+      })
+      // Empty variables shouldn't leave gaps in the prompt
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+// The project's template when it has one, the built-in one otherwise
+export function renderPrompt(
+  name: PromptName,
+  variables: Record<string, string> = buildPromptVariables()
+): string {
+  const filePath = projectPromptPath(name);
+  return filePath
+    ? renderTemplate(fs.readFileSync(filePath, "utf-8"), variables, filePath)
+    : renderTemplate(SYSTEM_PROMPTS[name], variables, `built-in ${name}`);
+}
+
+/**
+ * The complete system prompt for a run: the role prompt, the project
+ * description, a snapshot of what already exists in the project and what
+ * earlier runs learned about it.
+ */
+export function buildSystemPrompt(
+  name: PromptName,
+  tools: string[] = []
+): string {
+  const variables = buildPromptVariables();
+  return [
+    renderPrompt(name, variables),
+    renderPrompt("PROJECT_CONTEXT", variables),
+    formatProjectContext(buildProjectContext()),
+    formatMemoryForPrompt(tools.includes("update_project_memory")),
+  ].join("\n\n");
+}
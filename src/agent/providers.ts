@@ -0,0 +1,136 @@
+import type { LanguageModel } from "ai";
+import { google } from "@ai-sdk/google";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { MockLanguageModelV2, simulateReadableStream } from "ai/test";
+import { loadAgentConfig } from "./config";
+import { createReplayModel, loadTrace } from "./traces";
+import type { ProviderSettings } from "../types";
+
+export const DEFAULT_MODEL = "google:gemini-1.5-flash";
+
+export type ModelFactory = (
+  modelId: string,
+  settings: ProviderSettings
+) => LanguageModel;
+
+export interface ResolvedModel {
+  spec: string;
+  provider: string;
+  modelId: string;
+  model: LanguageModel;
+}
+
+const providers = new Map<string, ModelFactory>();
+
+export function registerProvider(name: string, factory: ModelFactory) {
+  providers.set(name, factory);
+}
+
+export function listProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+export function parseModelSpec(spec: string) {
+  const separator = spec.indexOf(":");
+  if (separator <= 0 || separator === spec.length - 1) {
+    throw new Error(
+      `Invalid model "${spec}". Use the form provider:model, e.g. ${DEFAULT_MODEL}`
+    );
+  }
+
+  return {
+    provider: spec.slice(0, separator),
+    modelId: spec.slice(separator + 1),
+  };
+}
+
+/**
+ * Resolve a `provider:model` spec to a language model. When no spec is given
+ * the model from agent.config.json is used, then AGENT_MODEL, then `fallback`.
+ */
+export function resolveModel(
+  spec?: string,
+  fallback: string = DEFAULT_MODEL
+): ResolvedModel {
+  const config = loadAgentConfig();
+  const selected = spec || config.model || process.env.AGENT_MODEL || fallback;
+  const { provider, modelId } = parseModelSpec(selected);
+
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new Error(
+      `Unknown model provider "${provider}". Available providers: ${listProviders().join(", ")}`
+    );
+  }
+
+  return {
+    spec: selected,
+    provider,
+    modelId,
+    model: factory(modelId, config.providers?.[provider] ?? {}),
+  };
+}
+
+function openAICompatible(
+  name: string,
+  baseURLEnv: string,
+  defaultBaseURL: string
+): ModelFactory {
+  return (modelId, settings) => {
+    const apiKeyEnv = settings.apiKeyEnv ?? "OPENAI_COMPATIBLE_API_KEY";
+    const provider = createOpenAICompatible({
+      name,
+      baseURL: settings.baseURL ?? process.env[baseURLEnv] ?? defaultBaseURL,
+      apiKey: process.env[apiKeyEnv],
+      headers: settings.headers,
+    });
+
+    return provider.chatModel(modelId);
+  };
+}
+
+// Offline model for CI and local smoke tests. It never calls tools and
+// answers every prompt with a fixed text.
+function createMockModel(modelId: string): LanguageModel {
+  const text = `Mock response from ${modelId}`;
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+  return new MockLanguageModelV2({
+    provider: "mock",
+    modelId,
+    doGenerate: async () => ({
+      content: [{ type: "text", text }],
+      finishReason: "stop",
+      usage,
+      warnings: [],
+    }),
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          { type: "stream-start", warnings: [] },
+          { type: "text-start", id: "mock-text" },
+          { type: "text-delta", id: "mock-text", delta: text },
+          { type: "text-end", id: "mock-text" },
+          { type: "finish", finishReason: "stop", usage },
+        ],
+      }),
+    }),
+  });
+}
+
+registerProvider("google", (modelId) => google(modelId));
+registerProvider(
+  "openai-compatible",
+  openAICompatible(
+    "openai-compatible",
+    "OPENAI_COMPATIBLE_BASE_URL",
+    "http://localhost:8080/v1"
+  )
+);
+registerProvider(
+  "ollama",
+  openAICompatible("ollama", "OLLAMA_BASE_URL", "http://localhost:11434/v1")
+);
+registerProvider("mock", (modelId) => createMockModel(modelId));
+// Answers with the responses of a recorded trace, e.g. replay:<trace id>
+registerProvider("replay", (modelId) => createReplayModel(loadTrace(modelId)));
@@ -0,0 +1,158 @@
+import { wrapLanguageModel, type LanguageModel } from "ai";
+import { loadAgentConfig } from "./config";
+import {
+  classifyError,
+  classifyToolFailure,
+  RateLimitError,
+  type AgentError,
+  type ToolFailureError,
+} from "./errors";
+import { ANY_TOOL } from "./policy";
+import { isToolSuccess, type ToolMiddleware } from "./tool-middleware";
+import type { AgentEvent, RetryRule, RetrySettings } from "../types";
+
+// Model calls back off for up to about half a minute. Tools are not retried,
+// except migrations, which fail whenever the database is briefly unreachable.
+// `retry` in agent.config.json replaces these.
+export const DEFAULT_RETRY: Required<RetrySettings> = {
+  model: { maxAttempts: 4, initialDelayMs: 1000, maxDelayMs: 30000 },
+  tools: {
+    [ANY_TOOL]: { maxAttempts: 1 },
+    run_migration: { maxAttempts: 3, initialDelayMs: 2000, maxDelayMs: 10000 },
+  },
+};
+
+export interface RetryAttempt {
+  error: AgentError;
+  // The attempt that failed, starting at 1
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+}
+
+// As a progress event; toolName is unset for model calls
+export function toRetryEvent({
+  error,
+  ...retry
+}: RetryAttempt & { toolName?: string }): AgentEvent {
+  return { type: "retry", code: error.code, error: error.message, ...retry };
+}
+
+export function loadRetrySettings(): Required<RetrySettings> {
+  const { retry } = loadAgentConfig();
+  return {
+    model: { ...DEFAULT_RETRY.model, ...retry?.model },
+    tools: { ...DEFAULT_RETRY.tools, ...retry?.tools },
+  };
+}
+
+// A tool's own rule, else the one under "*"
+function toolRule(settings: RetrySettings, toolName: string): RetryRule {
+  return settings.tools?.[toolName] ?? settings.tools?.[ANY_TOOL] ?? {};
+}
+
+// Exponential backoff with jitter, or what the provider asked for. Neither
+// waits longer than maxDelayMs, however long a Retry-After header says.
+export function backoffDelay(
+  rule: RetryRule,
+  attempt: number,
+  error: AgentError
+): number {
+  const maxDelay = rule.maxDelayMs ?? Infinity;
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, maxDelay);
+  }
+  const initial = rule.initialDelayMs ?? 1000;
+  const delay = Math.min(initial * 2 ** (attempt - 1), maxDelay);
+  return Math.round(delay * (0.75 + Math.random() / 2));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function withRetries<T>(
+  rule: RetryRule,
+  attemptOnce: () => PromiseLike<T>,
+  onRetry: (retry: RetryAttempt) => void
+): Promise<T> {
+  const maxAttempts = rule.maxAttempts ?? 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await attemptOnce();
+    } catch (thrown) {
+      const error = classifyError(thrown);
+      if (!error.retryable || attempt >= maxAttempts) throw error;
+
+      const delayMs = backoffDelay(rule, attempt, error);
+      onRetry({ error, attempt, maxAttempts, delayMs });
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Retry model calls that fail with a rate limit or a transient server or
+ * network error. Only starting a call is retried; once a response streams,
+ * its errors reach the run as they are. Whatever fails for good is thrown as
+ * a typed error.
+ */
+export function retryModel(
+  model: LanguageModel,
+  rule: RetryRule,
+  onRetry: (retry: RetryAttempt) => void = () => {}
+): LanguageModel {
+  // Model ids resolved by the gateway have no calls to intercept
+  if (typeof model === "string") return model;
+
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: ({ doGenerate }) => withRetries(rule, doGenerate, onRetry),
+      wrapStream: ({ doStream }) => withRetries(rule, doStream, onRetry),
+    },
+  });
+}
+
+/**
+ * Run tool calls again when they fail for a transient reason, per tool rule.
+ * When a call still fails after its last attempt, `onExhausted` gets the
+ * typed error, so the run can stop instead of working around a broken
+ * database or network. Other failures go back to the model as always.
+ */
+export function retryTools(
+  settings: RetrySettings,
+  {
+    onRetry = () => {},
+    onExhausted = () => {},
+  }: {
+    onRetry?: (retry: RetryAttempt & { toolName: string }) => void;
+    onExhausted?: (error: ToolFailureError) => void;
+  } = {}
+): ToolMiddleware {
+  return async (call, next) => {
+    const rule = toolRule(settings, call.toolName);
+    const maxAttempts = rule.maxAttempts ?? 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const output = await next();
+      if (isToolSuccess(output)) return output;
+
+      const error = classifyToolFailure(call.toolName, output);
+      if (!error.retryable) return output;
+      if (attempt >= maxAttempts) {
+        onExhausted(error);
+        return output;
+      }
+
+      const delayMs = backoffDelay(rule, attempt, error);
+      onRetry({
+        toolName: call.toolName,
+        error,
+        attempt,
+        maxAttempts,
+        delayMs,
+      });
+      await sleep(delayMs);
+    }
+  };
+}
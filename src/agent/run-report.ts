@@ -0,0 +1,146 @@
+import type { StepResult, ToolSet } from "ai";
+import { buildProjectContext, COMPONENTS_DIR } from "./project-context";
+import { getRunChanges } from "./runs";
+import { getPendingChanges, isDryRun } from "./workspace";
+import { isToolSuccess } from "./tool-middleware";
+import type {
+  PolicyViolation,
+  RunChanges,
+  UsageReport,
+  VerificationResult,
+  WorkflowReport,
+} from "../types";
+
+export type RunBaseline = ReturnType<typeof captureBaseline>;
+
+/**
+ * Project state before a run, to compare against afterwards. Dry runs share
+ * one overlay, so what is already pending belongs to earlier runs.
+ */
+export function captureBaseline() {
+  return {
+    context: buildProjectContext(),
+    pending: new Map(
+      getPendingChanges().map((change) => [change.path, change.after])
+    ),
+  };
+}
+
+function changedFiles(baseline: RunBaseline, runId?: string) {
+  if (runId) return getRunChanges(runId);
+  if (!isDryRun()) return [];
+
+  return getPendingChanges()
+    .filter((change) => baseline.pending.get(change.path) !== change.after)
+    .map((change) => ({
+      path: change.path,
+      created: change.before === null && !baseline.pending.has(change.path),
+    }));
+}
+
+/**
+ * What a run changed: files from the run's snapshot (or the dry-run
+ * overlay), tables, routes and hooks by comparing the project before and
+ * after, and migrations from the tool results.
+ */
+export function buildRunChanges(
+  baseline: RunBaseline,
+  steps: StepResult<ToolSet>[],
+  runId?: string
+): RunChanges {
+  const files = changedFiles(baseline, runId);
+  const changed = new Set(files.map((file) => file.path));
+  const after = buildProjectContext();
+
+  const tables = after.tables.flatMap((table) => {
+    if (!changed.has(table.file)) return [];
+    const before = baseline.context.tables.find(
+      (candidate) => candidate.name === table.name
+    );
+    const columns = table.columns.filter(
+      (column) => !before?.columns.includes(column)
+    );
+    return before && columns.length === 0
+      ? []
+      : [{ name: table.name, file: table.file, columns, created: !before }];
+  });
+
+  const migrations = steps
+    .flatMap((step) => step.toolResults)
+    .filter(
+      (result) =>
+        result.toolName === "run_migration" && isToolSuccess(result.output)
+    )
+    .map((result) => (result.input as { action: string }).action);
+
+  return {
+    filesCreated: files.filter((file) => file.created).map((file) => file.path),
+    filesModified: files
+      .filter((file) => !file.created)
+      .map((file) => file.path),
+    tables,
+    migrations: {
+      generated: migrations.includes("generate"),
+      applied: migrations.includes("migrate") || migrations.includes("push"),
+    },
+    endpoints: after.routes.filter((route) => changed.has(route.file)),
+    hooks: after.hooks.filter((hook) => changed.has(hook.file)),
+    components: [...changed].filter((file) =>
+      file.startsWith(`${COMPONENTS_DIR}/`)
+    ),
+  };
+}
+
+// Everything about a run that deserves a second look, as plain sentences
+export function collectWarnings({
+  steps,
+  usage,
+  verification,
+  workflow,
+  violations,
+}: {
+  steps: StepResult<ToolSet>[];
+  usage: UsageReport;
+  verification?: VerificationResult;
+  workflow?: WorkflowReport;
+  violations: PolicyViolation[];
+}): string[] {
+  const warnings: string[] = [];
+
+  if (usage.budget) {
+    warnings.push(
+      `Stopped early to stay within the ${usage.budget.limit} budget of ${usage.budget.max}`
+    );
+  }
+  if (workflow && workflow.stageReached !== "done") {
+    warnings.push(`Workflow stopped in stage ${workflow.stageReached}`);
+  }
+  if (verification && verification.errorCount > 0) {
+    warnings.push(
+      `${verification.errorCount} error(s) left after ${verification.repairAttempts} repair attempt(s)`
+    );
+  }
+  for (const check of verification?.failedChecks ?? []) {
+    warnings.push(check.message);
+  }
+  for (const violation of violations) {
+    warnings.push(`Policy refused ${violation.toolName}: ${violation.message}`);
+  }
+
+  const refused = new Set(violations.map((violation) => violation.toolCallId));
+  for (const result of steps.flatMap((step) => step.toolResults)) {
+    if (isToolSuccess(result.output) || refused.has(result.toolCallId)) {
+      continue;
+    }
+    const { error } = (result.output ?? {}) as { error?: unknown };
+    warnings.push(
+      `${result.toolName} failed${
+        error
+          ? `: ${error instanceof Error ? error.message : String(error)}`
+          : ""
+      }`
+    );
+  }
+
+  return warnings;
+}
@@ -0,0 +1,230 @@
+import fs from "fs";
+import path from "path";
+import { setBeforeWrite } from "./workspace";
+
+export const RUNS_DIR = ".agent/runs";
+
+export type RunStatus = "running" | "completed" | "rolled-back" | "undone";
+
+export interface RunRecord {
+  id: string;
+  prompt: string;
+  startedAt: string;
+  finishedAt?: string;
+  status: RunStatus;
+  error?: string;
+  // Run this one continues, see `agent resume`
+  resumedFrom?: string;
+}
+
+// Project state before the run first touched each path. A null file content
+// means the file did not exist and is deleted on rollback.
+interface RunSnapshot {
+  files: Record<string, string | null>;
+  createdDirs: string[];
+}
+
+let activeRun: RunRecord | null = null;
+
+function runPath(runId: string, file: string) {
+  return path.join(RUNS_DIR, runId, file);
+}
+
+// Sortable, human-readable id such as 20250105-142233-9f1c
+export function createTimestampId(): string {
+  const timestamp = new Date()
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace("T", "-")
+    .slice(0, 15);
+  return `${timestamp}-${Math.random().toString(16).slice(2, 6)}`;
+}
+
+function saveRun(run: RunRecord) {
+  fs.writeFileSync(runPath(run.id, "run.json"), JSON.stringify(run, null, 2));
+}
+
+function loadSnapshot(runId: string): RunSnapshot {
+  const snapshotPath = runPath(runId, "snapshot.json");
+  if (!fs.existsSync(snapshotPath)) {
+    return { files: {}, createdDirs: [] };
+  }
+  return JSON.parse(fs.readFileSync(snapshotPath, "utf-8"));
+}
+
+function saveSnapshot(runId: string, snapshot: RunSnapshot) {
+  fs.writeFileSync(
+    runPath(runId, "snapshot.json"),
+    JSON.stringify(snapshot, null, 2)
+  );
+}
+
+export function loadRun(runId: string): RunRecord {
+  const recordPath = runPath(runId, "run.json");
+  if (!fs.existsSync(recordPath)) {
+    throw new Error(`Run not found: ${runId}`);
+  }
+  return JSON.parse(fs.readFileSync(recordPath, "utf-8"));
+}
+
+// All recorded runs, oldest first
+export function listRuns(): RunRecord[] {
+  if (!fs.existsSync(RUNS_DIR)) return [];
+
+  return fs
+    .readdirSync(RUNS_DIR)
+    .filter((runId) => fs.existsSync(runPath(runId, "run.json")))
+    .map(loadRun)
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+export function getRunFiles(runId: string): string[] {
+  return Object.keys(loadSnapshot(runId).files);
+}
+
+// Files the run wrote and whether it created them. Files written back with
+// their original content are left out.
+export function getRunChanges(
+  runId: string
+): { path: string; created: boolean }[] {
+  return Object.entries(loadSnapshot(runId).files)
+    .filter(([file, before]) => {
+      const after = fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : null;
+      return after !== before;
+    })
+    .map(([file, before]) => ({ path: file, created: before === null }));
+}
+
+export function getActiveRun(): RunRecord | null {
+  return activeRun;
+}
+
+/**
+ * Start a transactional run. Until it is finished, every file the agent
+ * writes is snapshotted on first write so the run can be rolled back.
+ */
+export function beginRun(prompt: string, resumedFrom?: string): RunRecord {
+  const run: RunRecord = {
+    id: createTimestampId(),
+    prompt,
+    startedAt: new Date().toISOString(),
+    status: "running",
+    resumedFrom,
+  };
+
+  fs.mkdirSync(path.join(RUNS_DIR, run.id), { recursive: true });
+  saveRun(run);
+
+  const snapshot: RunSnapshot = { files: {}, createdDirs: [] };
+  saveSnapshot(run.id, snapshot);
+
+  setBeforeWrite((key, kind) => {
+    if (kind === "dir") {
+      // mkdir is recursive, so remember the topmost directory it creates
+      let topmost = key;
+      while (!fs.existsSync(path.dirname(topmost))) {
+        topmost = path.dirname(topmost);
+      }
+      snapshot.createdDirs.push(topmost);
+    } else if (!(key in snapshot.files)) {
+      snapshot.files[key] = fs.existsSync(key)
+        ? fs.readFileSync(key, "utf-8")
+        : null;
+    } else {
+      return;
+    }
+    // Persist right away so a crash mid-run can still be undone
+    saveSnapshot(run.id, snapshot);
+  });
+
+  activeRun = run;
+  return run;
+}
+
+export function completeRun(run: RunRecord) {
+  finishRun(run, "completed");
+}
+
+// Remove directories the run created, deepest first, as long as they are empty
+function removeEmptyDirs(dirs: string[]) {
+  const byDepth = [...dirs].sort(
+    (a, b) => b.split(path.sep).length - a.split(path.sep).length
+  );
+
+  for (const dir of byDepth) {
+    if (!fs.existsSync(dir)) continue;
+    const walk = (current: string): boolean => {
+      for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+        if (!entry.isDirectory() || !walk(path.join(current, entry.name))) {
+          return false;
+        }
+      }
+      fs.rmdirSync(current);
+      return true;
+    };
+    walk(dir);
+  }
+}
+
+function restoreSnapshot(runId: string): string[] {
+  const snapshot = loadSnapshot(runId);
+  const restored: string[] = [];
+
+  for (const [file, content] of Object.entries(snapshot.files)) {
+    if (content === null) {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    } else {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, content);
+    }
+    restored.push(file);
+  }
+
+  removeEmptyDirs(snapshot.createdDirs);
+  return restored;
+}
+
+/**
+ * Undo an unfinished run after an error or interrupt. Synchronous so it can
+ * run from a signal handler right before the process exits.
+ */
+export function rollbackRun(run: RunRecord, error?: unknown): string[] {
+  finishRun(run, "rolled-back", error);
+  return restoreSnapshot(run.id);
+}
+
+/**
+ * Restore the project to its state before `runId`. Runs that happened after
+ * it are undone as well, newest first, since they build on its changes.
+ */
+export function undoRun(runId: string) {
+  const runs = listRuns();
+  const index = runs.findIndex((run) => run.id === runId);
+  if (index === -1) {
+    throw new Error(`Run not found: ${runId}`);
+  }
+
+  const undone: { run: RunRecord; files: string[] }[] = [];
+
+  for (const run of runs.slice(index).reverse()) {
+    if (run.status !== "completed") continue;
+    undone.push({ run, files: restoreSnapshot(run.id) });
+    finishRun(run, "undone");
+  }
+
+  return undone;
+}
+
+function finishRun(run: RunRecord, status: RunStatus, error?: unknown) {
+  run.status = status;
+  run.finishedAt = new Date().toISOString();
+  if (error !== undefined) {
+    run.error = error instanceof Error ? error.message : String(error);
+  }
+  saveRun(run);
+
+  if (activeRun?.id === run.id) {
+    setBeforeWrite(null);
+    activeRun = null;
+  }
+}
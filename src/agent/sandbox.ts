@@ -0,0 +1,114 @@
+import fs from "fs";
+import path from "path";
+import { minimatch } from "minimatch";
+import { loadAgentConfig } from "./config";
+
+// Files the file tools may neither list, read nor write: secrets, version
+// control, dependencies and lockfiles. Patterns without a slash match a file
+// or directory of that name anywhere in the project. `sandbox.denyPaths` in
+// agent.config.json replaces this list.
+export const DEFAULT_SANDBOX_DENY_PATHS = [
+  ".env",
+  ".env.*",
+  "*.pem",
+  "*.key",
+  ".git",
+  "node_modules",
+  "package-lock.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+];
+
+export interface SandboxRejection {
+  success: false;
+  refused: true;
+  error: string;
+  sandbox: {
+    rule: "outside-project" | "denied-path";
+    path: string;
+    pattern?: string;
+  };
+}
+
+export function loadSandboxDenyPaths(): string[] {
+  return loadAgentConfig().sandbox?.denyPaths ?? DEFAULT_SANDBOX_DENY_PATHS;
+}
+
+// Follows symlinks through the part of the path that exists, so a link
+// inside the project cannot lead the tools out of it
+function realPath(absolutePath: string): string {
+  let existing = absolutePath;
+  while (!fs.existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) return absolutePath;
+    existing = parent;
+  }
+  return path.join(
+    fs.realpathSync(existing),
+    path.relative(existing, absolutePath)
+  );
+}
+
+/**
+ * The project-relative form of `filePath`, or undefined when it resolves to
+ * somewhere outside the project root.
+ */
+export function toProjectPath(filePath: string): string | undefined {
+  const root = fs.realpathSync(process.cwd());
+  const relative = path.relative(root, realPath(path.resolve(root, filePath)));
+  if (relative.startsWith("..") || path.isAbsolute(relative)) return undefined;
+  return relative.split(path.sep).join("/") || ".";
+}
+
+// The deny pattern matching the path or one of its parent directories
+export function findDeniedPattern(
+  projectPath: string,
+  denyPaths: string[] = loadSandboxDenyPaths()
+): string | undefined {
+  const segments = projectPath.split("/");
+  for (let i = 1; i <= segments.length; i++) {
+    const prefix = segments.slice(0, i).join("/");
+    const pattern = denyPaths.find((glob) =>
+      minimatch(prefix, glob, { dot: true, matchBase: true })
+    );
+    if (pattern) return pattern;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a path a tool was given against the project root. Paths that
+ * escape the root or hit the deny list come back as a rejection the tool
+ * returns to the model as it is.
+ */
+export function resolveSandboxPath(
+  filePath: string,
+  denyPaths: string[] = loadSandboxDenyPaths()
+): { path: string } | { rejection: SandboxRejection } {
+  const projectPath = toProjectPath(filePath);
+  if (projectPath === undefined) {
+    return {
+      rejection: {
+        success: false,
+        refused: true,
+        error: `Path "${filePath}" is outside the project. Use a path relative to the project root.`,
+        sandbox: { rule: "outside-project", path: filePath },
+      },
+    };
+  }
+
+  const pattern = findDeniedPattern(projectPath, denyPaths);
+  if (pattern) {
+    return {
+      rejection: {
+        success: false,
+        refused: true,
+        error: `Path "${projectPath}" is protected (matches "${pattern}") and cannot be listed, read or written.`,
+        sandbox: { rule: "denied-path", path: projectPath, pattern },
+      },
+    };
+  }
+
+  return { path: projectPath };
+}
@@ -0,0 +1,58 @@
+import fs from "fs";
+import path from "path";
+import type { ModelMessage } from "ai";
+import { createTimestampId } from "./runs";
+
+export const SESSIONS_DIR = ".agent/sessions";
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  model?: string;
+  profile?: string;
+  messages: ModelMessage[];
+}
+
+function sessionPath(sessionId: string) {
+  return path.join(SESSIONS_DIR, `${sessionId}.json`);
+}
+
+export function createSession(model?: string, profile?: string): ChatSession {
+  const now = new Date().toISOString();
+  return {
+    id: createTimestampId(),
+    title: "",
+    createdAt: now,
+    updatedAt: now,
+    model,
+    profile,
+    messages: [],
+  };
+}
+
+export function loadSession(sessionId: string): ChatSession {
+  const filePath = sessionPath(sessionId);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Chat session not found: ${sessionId}`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+}
+
+export function saveSession(session: ChatSession) {
+  fs.mkdirSync(SESSIONS_DIR, { recursive: true });
+  session.updatedAt = new Date().toISOString();
+  fs.writeFileSync(sessionPath(session.id), JSON.stringify(session, null, 2));
+}
+
+// All saved sessions, most recently used first
+export function listSessions(): ChatSession[] {
+  if (!fs.existsSync(SESSIONS_DIR)) return [];
+
+  return fs
+    .readdirSync(SESSIONS_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => loadSession(path.basename(file, ".json")))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
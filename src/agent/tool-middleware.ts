@@ -0,0 +1,69 @@
+import type { ToolSet } from "ai";
+
+export interface ToolCallContext {
+  toolName: string;
+  toolCallId: string;
+  input: any;
+}
+
+// A middleware runs around a tool's execute. It can inspect the call, return
+// its own result instead of calling `next`, or post-process the result.
+export type ToolMiddleware = (
+  call: ToolCallContext,
+  next: (input?: any) => Promise<unknown>
+) => Promise<unknown>;
+
+// Tools report failures as `{ success: false }` or `{ error }` rather than
+// throwing. An explicit `success` flag wins over a leftover error field.
+export function isToolSuccess(output: unknown): boolean {
+  if (!output || typeof output !== "object") return true;
+  const result = output as { success?: unknown; error?: unknown };
+  if (typeof result.success === "boolean") return result.success;
+  return !result.error;
+}
+
+/**
+ * Wrap every tool in the set with the given middlewares. The first middleware
+ * is the outermost one, so it sees the call before all others.
+ */
+export function wrapTools<TOOLS extends ToolSet>(
+  tools: TOOLS,
+  ...middlewares: ToolMiddleware[]
+): TOOLS {
+  if (middlewares.length === 0) return tools;
+
+  const wrapped: ToolSet = {};
+
+  for (const [toolName, original] of Object.entries(tools)) {
+    const execute = original.execute;
+    if (!execute) {
+      wrapped[toolName] = original;
+      continue;
+    }
+
+    wrapped[toolName] = {
+      ...original,
+      execute: async (input: any, options: any) => {
+        const call: ToolCallContext = {
+          toolName,
+          toolCallId: options?.toolCallId ?? "",
+          input,
+        };
+
+        const run = (index: number, currentInput: any): Promise<unknown> => {
+          if (index === middlewares.length) {
+            return Promise.resolve(execute(currentInput, options));
+          }
+          return middlewares[index](
+            { ...call, input: currentInput },
+            (nextInput = currentInput) => run(index + 1, nextInput)
+          );
+        };
+
+        return run(0, input);
+      },
+    } as ToolSet[string];
+  }
+
+  return wrapped as TOOLS;
+}
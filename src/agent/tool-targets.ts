@@ -0,0 +1,75 @@
+import path from "path";
+import { toProjectPath } from "./sandbox";
+import { hookFilePath } from "./tools/api-tools";
+
+export interface ToolTargets {
+  // Project files the call will create or overwrite
+  writes: string[];
+  // Drizzle Kit action, for run_migration calls
+  migration?: "generate" | "migrate" | "push";
+}
+
+/**
+ * The project-relative form of a target, so rules see the same path however
+ * the model spelled it: absolute, with "./" or "../" or through a symlink.
+ * Targets outside the project are returned as given, for the policy to
+ * refuse.
+ */
+export function normalizeProjectPath(filePath: string): string {
+  const slashed = filePath.replace(/\\/g, "/");
+  return toProjectPath(slashed) ?? path.posix.normalize(slashed);
+}
+
+/**
+ * Work out which files a tool call is going to write before it runs, so
+ * guards can refuse the call up front instead of undoing it afterwards.
+ */
+export function getToolTargets(toolName: string, input: any): ToolTargets {
+  const writes: string[] = [];
+
+  switch (toolName) {
+    case "edit_file":
+      writes.push(input.path);
+      break;
+    case "create_schema":
+      writes.push(
+        `${input.schemaPath ?? "src/database/schemas"}/${input.tableName}.ts`
+      );
+      break;
+    case "create_multiple_schemas":
+      for (const entity of input.entities ?? []) {
+        writes.push(`src/database/schemas/${entity.name}.ts`);
+      }
+      break;
+    case "seed_database":
+      writes.push(`src/database/seeds/${input.tableName}-seed.ts`);
+      break;
+    case "create_database_connection":
+      writes.push("src/database/connection.ts");
+      break;
+    case "create_api_endpoint":
+      writes.push(`src/app/api/${input.endpoint}/route.ts`);
+      break;
+    case "update_api_types":
+      writes.push(`src/types/${input.endpoint}-api.ts`);
+      break;
+    case "create_api_client_hook":
+      writes.push(hookFilePath(input.endpoint));
+      break;
+    case "create_custom_hook":
+      writes.push(
+        path.join(input.hookPath ?? "src/hooks", `${input.hookName}.ts`)
+      );
+      break;
+    case "integrate_api_with_component":
+    case "update_component_types":
+      writes.push(input.componentPath);
+      break;
+    case "run_migration":
+      return { writes, migration: input.action };
+  }
+
+  return {
+    writes: writes.filter(Boolean).map(normalizeProjectPath),
+  };
+}
@@ -1,6 +1,17 @@
 import { tool } from "ai";
 import { z } from "zod";
-import fs from "fs";
+import { workspace } from "../workspace";
+
+export function toHookName(endpoint: string) {
+  return `use${endpoint
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("")}`;
+}
+
+export function hookFilePath(endpoint: string) {
+  return `src/hooks/${toHookName(endpoint).toLowerCase()}.ts`;
+}
 
 export const apiTools = {
   create_api_endpoint: tool({
@@ -118,16 +129,16 @@ ${methodHandlers}
         const apiDir = "src/app/api";
         const endpointDir = `${apiDir}/${endpoint}`;
 
-        if (!fs.existsSync(apiDir)) {
-          fs.mkdirSync(apiDir, { recursive: true });
+        if (!workspace.exists(apiDir)) {
+          workspace.mkdir(apiDir);
         }
 
-        if (!fs.existsSync(endpointDir)) {
-          fs.mkdirSync(endpointDir, { recursive: true });
+        if (!workspace.exists(endpointDir)) {
+          workspace.mkdir(endpointDir);
         }
 
         const filePath = `${endpointDir}/route.ts`;
-        fs.writeFileSync(filePath, apiContent);
+        workspace.writeFile(filePath, apiContent);
 
         return {
           success: true,
@@ -197,12 +208,12 @@ export interface ${typeName}UpdateRequest extends Partial<${typeName}CreateReque
 `;
 
         const typesDir = "src/types";
-        if (!fs.existsSync(typesDir)) {
-          fs.mkdirSync(typesDir, { recursive: true });
+        if (!workspace.exists(typesDir)) {
+          workspace.mkdir(typesDir);
         }
 
         const filePath = `${typesDir}/${endpoint}-api.ts`;
-        fs.writeFileSync(filePath, typeContent);
+        workspace.writeFile(filePath, typeContent);
 
         return {
           success: true,
@@ -230,10 +241,7 @@ export interface ${typeName}UpdateRequest extends Partial<${typeName}CreateReque
       console.log(`🪝 Creating API client hook for: ${endpoint}`);
 
       try {
-        const hookName = `use${endpoint
-          .split("-")
-          .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-          .join("")}`;
+        const hookName = toHookName(endpoint);
 
         const hookContent = `import { useState, useEffect } from 'react';
 import { ${
@@ -345,12 +353,12 @@ export function ${hookName}() {
 `;
 
         const hooksDir = "src/hooks";
-        if (!fs.existsSync(hooksDir)) {
-          fs.mkdirSync(hooksDir, { recursive: true });
+        if (!workspace.exists(hooksDir)) {
+          workspace.mkdir(hooksDir);
         }
 
-        const filePath = `${hooksDir}/${hookName.toLowerCase()}.ts`;
-        fs.writeFileSync(filePath, hookContent);
+        const filePath = hookFilePath(endpoint);
+        workspace.writeFile(filePath, hookContent);
 
         return {
           success: true,
@@ -2,7 +2,7 @@ import { tool } from "ai";
 import { z } from "zod";
 import { exec } from "child_process";
 import { promisify } from "util";
-import fs from "fs";
+import { getPendingChanges, isDryRun, workspace } from "../workspace";
 
 const execAsync = promisify(exec);
 
@@ -97,12 +97,12 @@ export type New${
 `;
 
         // Ensure directory exists
-        if (!fs.existsSync(schemaPath)) {
-          fs.mkdirSync(schemaPath, { recursive: true });
+        if (!workspace.exists(schemaPath)) {
+          workspace.mkdir(schemaPath);
         }
 
         const filePath = `${schemaPath}/${tableName}.ts`;
-        fs.writeFileSync(filePath, schemaContent);
+        workspace.writeFile(filePath, schemaContent);
 
         return {
           success: true,
@@ -131,6 +131,24 @@ export type New${
     }),
     execute: async ({ action }) => {
       console.log(`🚀 Running migration: ${action}`);
+
+      // Nothing reaches the database in a dry run; report what would run
+      if (isDryRun()) {
+        const pendingSchemas = getPendingChanges()
+          .map((change) => change.path)
+          .filter((file) => file.includes("schemas"));
+        return {
+          success: true,
+          simulated: true,
+          action,
+          output: `Dry run: skipped "drizzle-kit ${action}"${
+            pendingSchemas.length > 0
+              ? ` for pending schemas ${pendingSchemas.join(", ")}`
+              : ""
+          }`,
+        };
+      }
+
       try {
         const { stdout, stderr } = await execAsync(`npx drizzle-kit ${action}`);
         return { success: true, output: stdout, error: stderr, action };
@@ -178,11 +196,11 @@ export async function seed${
         const seedPath = `src/database/seeds/${tableName}-seed.ts`;
         const seedDir = "src/database/seeds";
 
-        if (!fs.existsSync(seedDir)) {
-          fs.mkdirSync(seedDir, { recursive: true });
+        if (!workspace.exists(seedDir)) {
+          workspace.mkdir(seedDir);
         }
 
-        fs.writeFileSync(seedPath, seedContent);
+        workspace.writeFile(seedPath, seedContent);
 
         return {
           success: true,
@@ -227,7 +245,7 @@ export const db = drizzle(client);
 `;
 
         const connectionPath = "src/database/connection.ts";
-        fs.writeFileSync(connectionPath, connectionContent);
+        workspace.writeFile(connectionPath, connectionContent);
 
         return {
           success: true,
@@ -418,15 +436,16 @@ export const select${capitalizedName}Schema = createSelectSchema(${tableName});
 
 export type Insert${capitalizedName} = typeof ${tableName}.$inferInsert;
 export type Select${capitalizedName} = typeof ${tableName}.$inferSelect;
+export type ${capitalizedName} = Select${capitalizedName};
 `;
 
           // Ensure directory exists
           const schemaDir = "src/database/schemas";
-          if (!fs.existsSync(schemaDir)) {
-            fs.mkdirSync(schemaDir, { recursive: true });
+          if (!workspace.exists(schemaDir)) {
+            workspace.mkdir(schemaDir);
           }
 
-          fs.writeFileSync(schemaPath, schemaContent);
+          workspace.writeFile(schemaPath, schemaContent);
           results.push({
             tableName,
             path: schemaPath,
@@ -1,12 +1,27 @@
 import { tool } from "ai";
 import { z } from "zod";
-import fs from "fs";
-import path from "path";
+import { workspace } from "../workspace";
+import { planFileEdit } from "../edits";
+import {
+  DEFAULT_CONTEXT_LINES,
+  DEFAULT_MAX_RESULTS,
+  searchCode,
+} from "../code-search";
+import { unifiedDiff } from "../diff";
+import { resolveSandboxPath } from "../sandbox";
+import {
+  buildProjectTree,
+  DEFAULT_TREE_DEPTH,
+  formatSize,
+  isBinaryContent,
+  MAX_READ_CHARS,
+  readLines,
+} from "../project-files";
 
 export const fileTools = {
   list_files: tool({
     description:
-      "List files and directories at a given path. If no path is provided, lists files in the current directory.",
+      "List the project as a tree: directories end in '/', files show their size and line count. Gitignored and .agentignore'd entries are skipped, and big folders are collapsed; list them directly to see inside. If no path is provided, lists the whole project.",
     inputSchema: z.object({
       path: z
         .string()
@@ -14,36 +29,144 @@ export const fileTools = {
         .describe(
           "Optional relative path to list files from. Defaults to current directory if not provided."
         ),
+      depth: z
+        .number()
+        .int()
+        .min(1)
+        .max(8)
+        .optional()
+        .describe(
+          `How many directory levels to show (default ${DEFAULT_TREE_DEPTH}); 1 lists only the directory itself`
+        ),
     }),
-    execute: async ({ path: generatedPath }) => {
-      if (generatedPath === ".git" || generatedPath === "node_modules") {
-        return { error: "You cannot read the path: " + generatedPath };
+    execute: async ({ path: generatedPath, depth }) => {
+      const resolved = resolveSandboxPath(
+        generatedPath?.trim() ? generatedPath : "."
+      );
+      if ("rejection" in resolved) {
+        console.log(`🚫 ${resolved.rejection.error}`);
+        return resolved.rejection;
+      }
+      const targetPath = resolved.path;
+      if (!workspace.exists(targetPath)) {
+        return {
+          path: targetPath,
+          success: false,
+          error: `No such file or directory: ${targetPath}`,
+        };
       }
-      const targetPath = generatedPath?.trim() ? generatedPath : ".";
       try {
         console.log(`📁 Listing files at '${targetPath}'`);
-        const output = fs.readdirSync(targetPath, { recursive: false });
-        return { path: targetPath, output };
+        const tree = buildProjectTree(targetPath, depth);
+        return {
+          path: targetPath,
+          ...tree,
+          ...(tree.truncated && {
+            hint: "Listing cut short. List a subdirectory or use a smaller depth",
+          }),
+        };
       } catch (e) {
         console.error(`❌ Error listing files:`, e);
-        return { error: e };
+        return {
+          path: targetPath,
+          success: false,
+          error: e instanceof Error ? e.message : String(e),
+        };
       }
     },
   }),
 
   read_file: tool({
     description:
-      "Read the contents of a given relative file path. Use this when you want to see what's inside a file.",
+      "Read the contents of a given relative file path. Use this when you want to see what's inside a file. Lines are numbered (the numbers are not part of the file; leave them out of edit_file's old_str). Long files are cut off with a hint where to continue; read big files in ranges with start_line and end_line.",
     inputSchema: z.object({
       path: z
         .string()
         .describe("The relative path of a file in the working directory."),
+      start_line: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("First line to read, starting at 1 (default 1)"),
+      end_line: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Last line to read, inclusive (default: the last line)"),
+      line_numbers: z
+        .boolean()
+        .optional()
+        .describe("Prefix every line with its number (default true)"),
     }),
-    execute: async ({ path }) => {
+    execute: async ({
+      path: requestedPath,
+      start_line,
+      end_line,
+      line_numbers,
+    }) => {
+      const resolved = resolveSandboxPath(requestedPath);
+      if ("rejection" in resolved) {
+        console.log(`🚫 ${resolved.rejection.error}`);
+        return resolved.rejection;
+      }
+      const { path } = resolved;
       try {
-        console.log(`📖 Reading file at '${path}'`);
-        const output = fs.readFileSync(path, "utf-8");
-        return { path, output };
+        console.log(
+          `📖 Reading file at '${path}'${
+            start_line || end_line
+              ? ` (lines ${start_line ?? 1}-${end_line ?? "end"})`
+              : ""
+          }`
+        );
+        const content = workspace.readFile(path);
+        if (isBinaryContent(content)) {
+          return {
+            path,
+            success: false,
+            binary: true,
+            error: `${path} is a binary file (${formatSize(
+              workspace.size(path)
+            )}) and cannot be read as text`,
+          };
+        }
+
+        if (start_line && end_line && end_line < start_line) {
+          return {
+            path,
+            success: false,
+            error: `end_line ${end_line} is before start_line ${start_line}`,
+          };
+        }
+
+        const range = readLines(content, {
+          startLine: start_line,
+          endLine: end_line,
+          lineNumbers: line_numbers,
+        });
+        if (range.startLine > Math.max(range.totalLines, 1)) {
+          return {
+            path,
+            success: false,
+            totalLines: range.totalLines,
+            error: `start_line ${range.startLine} is past the end of ${path}, which has ${range.totalLines} lines`,
+          };
+        }
+
+        const hint = [
+          range.clippedLine &&
+            `Line ${range.clippedLine} is longer than ${MAX_READ_CHARS} characters and only its start is shown.`,
+          range.nextLine &&
+            !range.clippedLine &&
+            `Output cut off at ${MAX_READ_CHARS} characters.`,
+          range.nextLine &&
+            `Continue from line ${range.nextLine} with start_line: ${range.nextLine}`,
+        ]
+          .filter(Boolean)
+          .join(" ");
+
+        return { path, ...range, ...(hint && { hint }) };
       } catch (error) {
         console.error(
           `❌ Error reading file at ${path}:`,
@@ -57,39 +180,196 @@ export const fileTools = {
     },
   }),
 
+  search_code: tool({
+    description:
+      "Search the contents of the project's files with a regular expression, like grep. Returns file:line matches with surrounding lines. Gitignored, protected and binary files are skipped. Use it to find every use of a type, function or variable in one call instead of reading files one by one.",
+    inputSchema: z.object({
+      pattern: z
+        .string()
+        .describe(
+          "JavaScript regular expression matched against each line, e.g. 'interface Track\\b' or 'recentlyPlayed'"
+        ),
+      path: z
+        .string()
+        .nullable()
+        .optional()
+        .describe("Directory to search in. Defaults to the whole project."),
+      include: z
+        .array(z.string())
+        .optional()
+        .describe("Only search files matching these globs, e.g. ['*.tsx']"),
+      exclude: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Skip files matching these globs, e.g. ['src/components/ui/**']"
+        ),
+      case_sensitive: z
+        .boolean()
+        .optional()
+        .describe("Match case exactly (default true)"),
+      context_lines: z
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .optional()
+        .describe(
+          `Lines shown before and after each match (default ${DEFAULT_CONTEXT_LINES})`
+        ),
+      max_results: z
+        .number()
+        .int()
+        .min(1)
+        .max(200)
+        .optional()
+        .describe(`Most matches to return (default ${DEFAULT_MAX_RESULTS})`),
+    }),
+    execute: async ({
+      pattern,
+      path: searchPath,
+      include,
+      exclude,
+      case_sensitive,
+      context_lines,
+      max_results,
+    }) => {
+      const resolved = resolveSandboxPath(
+        searchPath?.trim() ? searchPath : "."
+      );
+      if ("rejection" in resolved) {
+        console.log(`🚫 ${resolved.rejection.error}`);
+        return resolved.rejection;
+      }
+
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern, case_sensitive === false ? "i" : "");
+      } catch (error) {
+        // The message already says "Invalid regular expression"
+        return {
+          success: false,
+          pattern,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      try {
+        console.log(`🔎 Searching for /${pattern}/ in '${resolved.path}'`);
+        const result = searchCode({
+          regex,
+          dir: resolved.path,
+          include,
+          exclude,
+          contextLines: context_lines,
+          maxResults: max_results,
+        });
+        return {
+          success: true,
+          pattern,
+          path: resolved.path,
+          ...result,
+          ...(result.truncated && {
+            hint: "More matches than shown. Narrow the search with path, include or a more specific pattern",
+          }),
+        };
+      } catch (error) {
+        console.error(
+          `❌ Error searching for ${pattern}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+  }),
+
   edit_file: tool({
     description:
-      "Make edits to a text file or create a new file. Replaces 'old_str' with 'new_str' in the given file.",
+      "Make edits to a text file or create a new file. Replaces 'old_str' with 'new_str' in the given file; old_str must match exactly once. Pass 'edits' to make several replacements in one call: they are applied in order and either all succeed or none is written. Returns a unified diff of the change.",
     inputSchema: z.object({
       path: z.string().describe("The path to the file"),
       old_str: z
         .string()
         .nullable()
-        .describe("Text to search for - must match exactly"),
-      new_str: z.string().describe("Text to replace old_str with"),
+        .optional()
+        .describe(
+          "Text to search for - must match exactly once. null creates a new file with new_str"
+        ),
+      new_str: z
+        .string()
+        .optional()
+        .describe("Text to replace old_str with, or the new file's content"),
+      replace_all: z
+        .boolean()
+        .optional()
+        .describe("Replace every match of old_str instead of exactly one"),
+      edits: z
+        .array(
+          z.object({
+            old_str: z.string(),
+            new_str: z.string(),
+            replace_all: z.boolean().optional(),
+          })
+        )
+        .optional()
+        .describe("Several replacements, used instead of old_str/new_str"),
+      overwrite: z
+        .boolean()
+        .optional()
+        .describe(
+          "With old_str null, replace the whole content of an existing file"
+        ),
+      ignore_whitespace: z
+        .boolean()
+        .optional()
+        .describe("Match old_str even when indentation and line breaks differ"),
     }),
-    execute: async ({ path, old_str, new_str }) => {
+    execute: async (input) => {
+      const resolved = resolveSandboxPath(input.path);
+      if ("rejection" in resolved) {
+        console.log(`🚫 ${resolved.rejection.error}`);
+        return resolved.rejection;
+      }
+      const { path } = resolved;
       try {
-        const fileExists = fs.existsSync(path);
-        if (fileExists && old_str !== null) {
-          console.log(`✏️ Editing file '${path}'`);
-          const fileContents = fs.readFileSync(path, "utf-8");
-          const newContents = fileContents.replace(old_str, new_str);
-          fs.writeFileSync(path, newContents);
-          return { path, success: true, action: "edit" };
+        const edit = planFileEdit({ ...input, path });
+        if ("error" in edit) {
+          console.log(`❌ Not editing '${path}': ${edit.error}`);
+          return { path, success: false, error: edit.error };
+        }
+
+        if (edit.action === "edit") {
+          console.log(
+            `✏️ Editing file '${path}' (${edit.replacements} replacement(s))`
+          );
         } else {
-          console.log(`📝 Creating file '${path}'`);
-          // Ensure directory exists
-          const dir = path.split("/").slice(0, -1).join("/");
-          if (dir && !fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-          }
-          fs.writeFileSync(path, new_str);
-          return { path, success: true, action: "create" };
+          console.log(
+            `📝 ${edit.action === "create" ? "Creating" : "Overwriting"} file '${path}'`
+          );
         }
+        // Directories are created on write
+        if (edit.after !== edit.before) workspace.writeFile(path, edit.after);
+
+        return {
+          path,
+          success: true,
+          action: edit.action,
+          replacements: edit.replacements,
+          // A new file's diff would only repeat new_str
+          ...(edit.action === "create"
+            ? { lines: edit.after.split("\n").length }
+            : { diff: unifiedDiff(path, edit.before, edit.after) }),
+        };
       } catch (e) {
         console.error(`❌ Error editing file ${path}:`, e);
-        return { error: e, success: false };
+        return {
+          path,
+          success: false,
+          error: e instanceof Error ? e.message : String(e),
+        };
       }
     },
   }),
@@ -110,19 +390,19 @@ export const fileTools = {
 
       try {
         const analysis = {
-          hasNextApp: fs.existsSync("src/app"),
-          hasComponents: fs.existsSync("src/components"),
-          hasDatabase: fs.existsSync("src/database"),
+          hasNextApp: workspace.exists("src/app"),
+          hasComponents: workspace.exists("src/components"),
+          hasDatabase: workspace.exists("src/database"),
           spotifyComponents: {
-            header: fs.existsSync("src/components/spotify-header.tsx"),
-            sidebar: fs.existsSync("src/components/spotify-sidebar.tsx"),
-            mainContent: fs.existsSync(
+            header: workspace.exists("src/components/spotify-header.tsx"),
+            sidebar: workspace.exists("src/components/spotify-sidebar.tsx"),
+            mainContent: workspace.exists(
               "src/components/spotify-main-content.tsx"
             ),
-            player: fs.existsSync("src/components/spotify-player.tsx"),
+            player: workspace.exists("src/components/spotify-player.tsx"),
           },
-          packageJson: fs.existsSync("package.json"),
-          tsConfig: fs.existsSync("tsconfig.json"),
+          packageJson: workspace.exists("package.json"),
+          tsConfig: workspace.exists("tsconfig.json"),
         };
 
         return { analysis, focus };
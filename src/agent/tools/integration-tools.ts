@@ -1,6 +1,7 @@
 import { tool } from "ai";
 import { z } from "zod";
-import fs from "fs";
+import { workspace } from "../workspace";
+import { resolveSandboxPath } from "../sandbox";
 import path from "path";
 
 export const integrationTools = {
@@ -59,14 +60,23 @@ export function ${hookName}() {
   return { data, loading, error, refetch: () => fetchData() };
 }`;
 
+      const resolved = resolveSandboxPath(
+        path.join(hookPath, `${hookName}.ts`)
+      );
+      if ("rejection" in resolved) {
+        console.log(`🚫 ${resolved.rejection.error}`);
+        return resolved.rejection;
+      }
+      const filePath = resolved.path;
+
       try {
         // Ensure directory exists
-        if (!fs.existsSync(hookPath)) {
-          fs.mkdirSync(hookPath, { recursive: true });
+        const hookDir = path.dirname(filePath);
+        if (!workspace.exists(hookDir)) {
+          workspace.mkdir(hookDir);
         }
 
-        const filePath = path.join(hookPath, `${hookName}.ts`);
-        fs.writeFileSync(filePath, hookContent);
+        workspace.writeFile(filePath, hookContent);
 
         return {
           success: true,
@@ -97,24 +107,30 @@ export function ${hookName}() {
       hookImportPath: z.string().describe("Import path for the custom hook"),
     }),
     execute: async ({
-      componentPath,
+      componentPath: requestedPath,
       hookName,
       dataProperty,
       hookImportPath,
     }) => {
+      const resolved = resolveSandboxPath(requestedPath);
+      if ("rejection" in resolved) {
+        console.log(`🚫 ${resolved.rejection.error}`);
+        return resolved.rejection;
+      }
+      const componentPath = resolved.path;
       console.log(
         `🔗 Integrating ${hookName} with component: ${componentPath}`
       );
 
       try {
-        if (!fs.existsSync(componentPath)) {
+        if (!workspace.exists(componentPath)) {
           return {
             success: false,
             error: `Component file not found: ${componentPath}`,
           };
         }
 
-        const componentContent = fs.readFileSync(componentPath, "utf-8");
+        const componentContent = workspace.readFile(componentPath);
 
         // Add hook import
         const importRegex = /^(import.*from.*['"];?)$/gm;
@@ -128,7 +144,7 @@ export function ${hookName}() {
             `${lastImport}\n${hookImport}`
           );
 
-          fs.writeFileSync(componentPath, updatedContent);
+          workspace.writeFile(componentPath, updatedContent);
         }
 
         return {
@@ -154,11 +170,21 @@ export function ${hookName}() {
       typeName: z.string().describe("Name of the type to update or create"),
       typeDefinition: z.string().describe("TypeScript interface definition"),
     }),
-    execute: async ({ componentPath, typeName, typeDefinition }) => {
+    execute: async ({
+      componentPath: requestedPath,
+      typeName,
+      typeDefinition,
+    }) => {
+      const resolved = resolveSandboxPath(requestedPath);
+      if ("rejection" in resolved) {
+        console.log(`🚫 ${resolved.rejection.error}`);
+        return resolved.rejection;
+      }
+      const componentPath = resolved.path;
       console.log(`📋 Updating types in component: ${componentPath}`);
 
       try {
-        if (!fs.existsSync(componentPath)) {
+        if (!workspace.exists(componentPath)) {
           return {
             success: false,
             error: `Component file not found: ${componentPath}`,
@@ -166,7 +192,7 @@ export function ${hookName}() {
         }
 
         // For now, we'll add the type definition at the top of the file
-        const componentContent = fs.readFileSync(componentPath, "utf-8");
+        const componentContent = workspace.readFile(componentPath);
 
         // Check if type already exists
         if (componentContent.includes(`interface ${typeName}`)) {
@@ -183,7 +209,7 @@ export function ${hookName}() {
         const afterImports = componentContent.substring(importEndIndex);
 
         const updatedContent = `${beforeImports}\n\n${typeDefinition}\n${afterImports}`;
-        fs.writeFileSync(componentPath, updatedContent);
+        workspace.writeFile(componentPath, updatedContent);
 
         return {
           success: true,
@@ -206,18 +232,24 @@ export function ${hookName}() {
     inputSchema: z.object({
       componentPath: z.string().describe("Path to the component file"),
     }),
-    execute: async ({ componentPath }) => {
+    execute: async ({ componentPath: requestedPath }) => {
+      const resolved = resolveSandboxPath(requestedPath);
+      if ("rejection" in resolved) {
+        console.log(`🚫 ${resolved.rejection.error}`);
+        return resolved.rejection;
+      }
+      const componentPath = resolved.path;
       console.log(`🔍 Analyzing data usage in: ${componentPath}`);
 
       try {
-        if (!fs.existsSync(componentPath)) {
+        if (!workspace.exists(componentPath)) {
           return {
             success: false,
             error: `Component file not found: ${componentPath}`,
           };
         }
 
-        const componentContent = fs.readFileSync(componentPath, "utf-8");
+        const componentContent = workspace.readFile(componentPath);
 
         const analysis = {
           hasStaticData:
@@ -0,0 +1,40 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { MEMORY_SECTIONS, updateMemory, type MemorySection } from "../memory";
+
+export const memoryTools = {
+  update_project_memory: tool({
+    description:
+      "Record or remove an entry in the project memory that every later run starts with. Use it for conventions (e.g. hook file naming, id column types), decisions and their reasons, and what was built (tables, routes, integrated components).",
+    inputSchema: z.object({
+      section: z
+        .enum(
+          Object.keys(MEMORY_SECTIONS) as [MemorySection, ...MemorySection[]]
+        )
+        .describe("conventions, decisions or built"),
+      action: z
+        .enum(["add", "remove"])
+        .describe("Add a new entry or remove an outdated one"),
+      entry: z
+        .string()
+        .describe(
+          "One short, self-contained line, e.g. 'Hook files are kebab-case: src/hooks/use-popular-albums.ts'"
+        ),
+    }),
+    execute: async ({ section, action, entry }) => {
+      try {
+        console.log(
+          `🧠 ${action === "add" ? "Remembering" : "Forgetting"}: ${entry}`
+        );
+        const entries = updateMemory(section, action, entry.trim());
+        return { success: true, section, entries };
+      } catch (error) {
+        console.error(`❌ Error updating project memory:`, error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+  }),
+};
@@ -0,0 +1,272 @@
+import fs from "fs";
+import path from "path";
+import { wrapLanguageModel, type LanguageModel, type ModelMessage } from "ai";
+import { MockLanguageModelV2, simulateReadableStream } from "ai/test";
+import { isToolSuccess, type ToolMiddleware } from "./tool-middleware";
+import type { CheckpointToolResult } from "./checkpoints";
+import type { AgentPlan } from "./planner";
+
+export const TRACES_DIR = ".agent/traces";
+
+type ProviderModel = Exclude<LanguageModel, string>;
+type StreamResult = Awaited<ReturnType<ProviderModel["doStream"]>>;
+export type ModelStreamPart =
+  StreamResult["stream"] extends ReadableStream<infer T> ? T : never;
+export type ModelPrompt = Parameters<ProviderModel["doStream"]>[0]["prompt"];
+
+export type TraceEntry =
+  // Everything needed to start the same run again
+  | {
+      type: "start";
+      prompt: string;
+      profile: string;
+      model: string;
+      plan?: AgentPlan;
+      messages?: ModelMessage[];
+      resume?: {
+        runId: string;
+        prompt: string;
+        toolResults: CheckpointToolResult[];
+      };
+      dryRun: boolean;
+    }
+  // What was sent to the model; `call` numbers the model calls of the run
+  | {
+      type: "model-request";
+      call: number;
+      prompt: ModelPrompt;
+      tools: string[];
+    }
+  // The model's streamed answer, chunk by chunk
+  | { type: "model-response"; call: number; chunks: ModelStreamPart[] }
+  | { type: "tool-call"; toolCallId: string; toolName: string; input: unknown }
+  | {
+      type: "tool-result";
+      toolCallId: string;
+      toolName: string;
+      output: unknown;
+      error?: string;
+    }
+  | { type: "end"; response?: string; error?: string };
+
+// One line of a trace file
+export type Trace = TraceEntry & { at: string };
+
+export type TraceRecorder = ReturnType<typeof createTraceRecorder>;
+
+export function tracePath(traceId: string) {
+  return path.join(TRACES_DIR, `${traceId}.jsonl`);
+}
+
+// Errors don't survive JSON.stringify, so keep their message
+function serializeChunk(chunk: ModelStreamPart): ModelStreamPart {
+  if (chunk.type !== "error") return chunk;
+  const { error } = chunk;
+  return {
+    ...chunk,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Record a run as JSONL: every model request and streamed response, and every
+ * tool call with its result. Lines are appended as they happen, so a trace
+ * of a crashed run is complete up to the crash.
+ */
+export function createTraceRecorder(traceId: string) {
+  const filePath = tracePath(traceId);
+  let calls = 0;
+
+  const record = (entry: TraceEntry) => {
+    fs.mkdirSync(TRACES_DIR, { recursive: true });
+    const line = JSON.stringify({ at: new Date().toISOString(), ...entry });
+    fs.appendFileSync(filePath, `${line}\n`);
+  };
+
+  return {
+    id: traceId,
+    path: filePath,
+    record,
+
+    wrapModel(model: LanguageModel): LanguageModel {
+      // Model ids resolved by the gateway have no calls to intercept
+      if (typeof model === "string") return model;
+
+      return wrapLanguageModel({
+        model,
+        middleware: {
+          wrapStream: async ({ doStream, params }) => {
+            const call = ++calls;
+            record({
+              type: "model-request",
+              call,
+              prompt: params.prompt,
+              tools: (params.tools ?? []).map((tool) => tool.name),
+            });
+
+            const result = await doStream();
+            const chunks: ModelStreamPart[] = [];
+            return {
+              ...result,
+              stream: result.stream.pipeThrough(
+                new TransformStream<ModelStreamPart, ModelStreamPart>({
+                  transform(chunk, controller) {
+                    chunks.push(serializeChunk(chunk));
+                    controller.enqueue(chunk);
+                  },
+                  flush() {
+                    record({ type: "model-response", call, chunks });
+                  },
+                })
+              ),
+            };
+          },
+        },
+      });
+    },
+
+    tools: (async (call, next) => {
+      const { toolCallId, toolName } = call;
+      record({ type: "tool-call", ...call });
+      try {
+        const output = await next();
+        record({ type: "tool-result", toolCallId, toolName, output });
+        return output;
+      } catch (error) {
+        record({
+          type: "tool-result",
+          toolCallId,
+          toolName,
+          output: undefined,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    }) as ToolMiddleware,
+  };
+}
+
+// Accepts a trace id or a path to a trace file
+export function loadTrace(trace: string): Trace[] {
+  const filePath = fs.existsSync(trace) ? trace : tracePath(trace);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Trace not found: ${trace}`);
+  }
+
+  return fs
+    .readFileSync(filePath, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as Trace];
+      } catch {
+        return [];
+      }
+    });
+}
+
+export function traceStart(trace: Trace[]) {
+  const start = trace.find(
+    (entry): entry is Extract<Trace, { type: "start" }> =>
+      entry.type === "start"
+  );
+  if (!start) throw new Error("The trace has no start entry to replay");
+  return start;
+}
+
+function reviveChunk(chunk: ModelStreamPart): ModelStreamPart {
+  switch (chunk.type) {
+    case "error":
+      return { ...chunk, error: new Error(String(chunk.error)) };
+    case "response-metadata":
+      return {
+        ...chunk,
+        timestamp: chunk.timestamp ? new Date(chunk.timestamp) : undefined,
+      };
+    default:
+      return chunk;
+  }
+}
+
+/**
+ * A model that answers with the responses recorded in a trace, in order.
+ * Calls beyond the recording fail, since the replay has gone somewhere the
+ * recorded run never did.
+ */
+export function createReplayModel(trace: Trace[]): LanguageModel {
+  const responses = trace.flatMap((entry) =>
+    entry.type === "model-response" ? [entry.chunks] : []
+  );
+  let next = 0;
+
+  return new MockLanguageModelV2({
+    provider: "replay",
+    modelId: traceStart(trace).model,
+    doGenerate: async () => {
+      throw new Error("Replayed traces only contain streamed responses");
+    },
+    doStream: async () => {
+      if (next >= responses.length) {
+        throw new Error(
+          `The trace has only ${responses.length} recorded model response(s); the replay made more calls than the recorded run`
+        );
+      }
+      return {
+        stream: simulateReadableStream({
+          chunks: responses[next++].map(reviveChunk),
+        }),
+      };
+    },
+  });
+}
+
+export interface ToolCallOutcome {
+  toolName: string;
+  success: boolean;
+  error?: string;
+}
+
+// Tool calls of a trace in the order they finished
+export function traceToolCalls(trace: Trace[]): ToolCallOutcome[] {
+  return trace.flatMap((entry) =>
+    entry.type === "tool-result"
+      ? [
+          {
+            toolName: entry.toolName,
+            success: !entry.error && isToolSuccess(entry.output),
+            error:
+              entry.error ??
+              (isToolSuccess(entry.output)
+                ? undefined
+                : String((entry.output as { error?: unknown })?.error ?? "")),
+          },
+        ]
+      : []
+  );
+}
+
+export interface ReplayMismatch {
+  index: number;
+  recorded?: ToolCallOutcome;
+  replayed?: ToolCallOutcome;
+}
+
+// Tool calls whose name or outcome differ between the recording and a replay
+export function compareToolCalls(
+  recorded: ToolCallOutcome[],
+  replayed: ToolCallOutcome[]
+): ReplayMismatch[] {
+  const mismatches: ReplayMismatch[] = [];
+  for (let i = 0; i < Math.max(recorded.length, replayed.length); i++) {
+    const before = recorded[i];
+    const after = replayed[i];
+    if (
+      before?.toolName !== after?.toolName ||
+      before?.success !== after?.success
+    ) {
+      mismatches.push({ index: i, recorded: before, replayed: after });
+    }
+  }
+  return mismatches;
+}
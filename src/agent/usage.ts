@@ -0,0 +1,203 @@
+import type { LanguageModelUsage, StepResult, ToolSet } from "ai";
+import { loadAgentConfig } from "./config";
+import type {
+  BudgetSettings,
+  ModelPrice,
+  TokenUsage,
+  UsageReport,
+} from "../types";
+
+// USD per million tokens. Override or extend with `pricing` in
+// agent.config.json; "provider:*" entries match every model of a provider.
+export const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  "google:gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "google:gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "google:gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "google:gemini-2.5-pro": { input: 1.25, output: 10 },
+  "ollama:*": { input: 0, output: 0 },
+  "mock:*": { input: 0, output: 0 },
+  "replay:*": { input: 0, output: 0 },
+};
+
+// Usage of steps that answered without calling a tool
+const NO_TOOL = "(response)";
+// Usage of the planning call made before a run or delegation
+export const PLAN_USAGE = "(plan)";
+
+export function findPrice(spec: string): ModelPrice | undefined {
+  const pricing = { ...DEFAULT_PRICING, ...loadAgentConfig().pricing };
+  const provider = spec.slice(0, spec.indexOf(":"));
+  return pricing[spec] ?? pricing[`${provider}:*`];
+}
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
+
+export function toTokenUsage(usage: LanguageModelUsage): TokenUsage {
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+  };
+}
+
+function addUsage(target: TokenUsage, usage: TokenUsage) {
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.totalTokens += usage.totalTokens;
+}
+
+export function estimateCost(usage: TokenUsage, price: ModelPrice): number {
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+export type UsageTracker = ReturnType<typeof createUsageTracker>;
+
+/**
+ * Accumulates token usage across every model call of a run and enforces the
+ * budget. A step's usage is attributed to the tools it called, split evenly,
+ * since that is the work the tokens were spent deciding on.
+ */
+export function createUsageTracker(
+  options: {
+    price?: ModelPrice;
+    budget?: BudgetSettings;
+    onBudgetExceeded?: (budget: NonNullable<UsageReport["budget"]>) => void;
+  } = {}
+) {
+  const { price, budget = {} } = options;
+
+  if (budget.maxCost !== undefined && !price) {
+    throw new Error(
+      "A cost budget needs a price for the model. Add it to `pricing` in agent.config.json"
+    );
+  }
+
+  const total = emptyUsage();
+  const steps: UsageReport["steps"] = [];
+  const tools: UsageReport["tools"] = {};
+  let lastStep = emptyUsage();
+  let exceeded: UsageReport["budget"];
+
+  const costOf = (usage: TokenUsage) =>
+    price ? estimateCost(usage, price) : undefined;
+
+  return {
+    record(step: StepResult<ToolSet>) {
+      const usage = toTokenUsage(step.usage);
+      const toolNames = step.toolCalls.map((call) => call.toolName);
+      const buckets = toolNames.length > 0 ? toolNames : [NO_TOOL];
+
+      addUsage(total, usage);
+      lastStep = usage;
+      steps.push({ step: steps.length + 1, usage, tools: toolNames });
+
+      for (const name of buckets) {
+        tools[name] ??= { calls: 0, ...emptyUsage() };
+        tools[name].calls += name === NO_TOOL ? 0 : 1;
+        addUsage(tools[name], {
+          inputTokens: usage.inputTokens / buckets.length,
+          outputTokens: usage.outputTokens / buckets.length,
+          totalTokens: usage.totalTokens / buckets.length,
+        });
+      }
+    },
+
+    // A model call made outside the run's steps, under its own entry
+    recordCall(name: string, usage: TokenUsage) {
+      addUsage(total, usage);
+      tools[name] ??= { calls: 0, ...emptyUsage() };
+      addUsage(tools[name], usage);
+    },
+
+    /**
+     * Whether another model call would likely go over budget. The next step
+     * resends the whole conversation, so it costs at least as much as the
+     * last one.
+     */
+    shouldStop(): boolean {
+      if (exceeded) return true;
+
+      const projected = emptyUsage();
+      addUsage(projected, total);
+      addUsage(projected, lastStep);
+
+      if (
+        budget.maxTokens !== undefined &&
+        projected.totalTokens > budget.maxTokens
+      ) {
+        exceeded = {
+          limit: "tokens",
+          max: budget.maxTokens,
+          used: total.totalTokens,
+        };
+      } else if (
+        budget.maxCost !== undefined &&
+        costOf(projected)! > budget.maxCost
+      ) {
+        exceeded = { limit: "cost", max: budget.maxCost, used: costOf(total)! };
+      }
+
+      if (exceeded) options.onBudgetExceeded?.(exceeded);
+      return exceeded !== undefined;
+    },
+
+    report(): UsageReport {
+      return {
+        total: { ...total },
+        cost: costOf(total),
+        steps: [...steps],
+        tools: Object.fromEntries(
+          Object.entries(tools).map(([name, usage]) => [
+            name,
+            {
+              ...usage,
+              inputTokens: Math.round(usage.inputTokens),
+              outputTokens: Math.round(usage.outputTokens),
+              totalTokens: Math.round(usage.totalTokens),
+            },
+          ])
+        ),
+        budget: exceeded,
+      };
+    },
+  };
+}
+
+// Combined usage of several runs, e.g. the sub-agents of a delegated request
+export function mergeUsageReports(reports: UsageReport[]): UsageReport {
+  const total = emptyUsage();
+  const tools: UsageReport["tools"] = {};
+  const steps: UsageReport["steps"] = [];
+  let cost: number | undefined = 0;
+
+  for (const report of reports) {
+    addUsage(total, report.total);
+    cost =
+      cost === undefined || report.cost === undefined
+        ? undefined
+        : cost + report.cost;
+    for (const step of report.steps) {
+      steps.push({ ...step, step: steps.length + 1 });
+    }
+    for (const [name, usage] of Object.entries(report.tools)) {
+      tools[name] ??= { calls: 0, ...emptyUsage() };
+      tools[name].calls += usage.calls;
+      addUsage(tools[name], usage);
+    }
+  }
+
+  return {
+    total,
+    cost,
+    steps,
+    tools,
+    budget: reports.find((report) => report.budget)?.budget,
+  };
+}
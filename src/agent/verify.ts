@@ -0,0 +1,165 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import fs from "fs";
+import path from "path";
+import type { Diagnostic, VerifySettings } from "../types";
+
+const execAsync = promisify(exec);
+
+const SOURCE_FILE = /\.(ts|tsx|js|jsx|mjs)$/;
+
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+// Both tools exit non-zero when they find problems; we only want their
+// output. No output at all means the check itself failed, e.g. npx could not
+// resolve it or it crashed, and its stderr says why.
+async function runCheck(
+  command: string
+): Promise<{ stdout: string } | { failure: string }> {
+  try {
+    const { stdout } = await execAsync(command, {
+      maxBuffer: 20 * 1024 * 1024,
+    });
+    return { stdout };
+  } catch (error) {
+    const { stdout, stderr } = error as { stdout?: string; stderr?: string };
+    if (stdout) return { stdout };
+    return {
+      failure:
+        stderr?.trim() ||
+        (error instanceof Error ? error.message : String(error)),
+    };
+  }
+}
+
+const CHECK_FAILED = "check-failed";
+
+// A check that could not run, reported like its findings so the run goes on
+// and the report says why. The model cannot fix these, so they are kept out
+// of the error counts and the repair prompt.
+function checkFailure(
+  source: Diagnostic["source"],
+  failure: string
+): Diagnostic {
+  return {
+    source,
+    file: ".",
+    line: 0,
+    column: 0,
+    severity: "error",
+    code: CHECK_FAILED,
+    message: `${source} could not run${
+      failure ? `: ${failure.slice(0, 2000)}` : ""
+    }`,
+  };
+}
+
+function toProjectPath(file: string) {
+  return path.relative(process.cwd(), path.resolve(file));
+}
+
+/**
+ * Type-check the whole project (types flow across files) and keep only the
+ * diagnostics reported for the given files.
+ */
+export async function runTypeCheck(files: string[]): Promise<Diagnostic[]> {
+  if (!fs.existsSync("tsconfig.json")) return [];
+
+  const check = await runCheck("npx tsc --noEmit --pretty false");
+  if ("failure" in check) return [checkFailure("tsc", check.failure)];
+  const wanted = new Set(files.map(toProjectPath));
+  const diagnostics: Diagnostic[] = [];
+
+  for (const line of check.stdout.split("\n")) {
+    const match = line.match(
+      /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/
+    );
+    if (!match || !wanted.has(toProjectPath(match[1]))) continue;
+
+    diagnostics.push({
+      source: "tsc",
+      file: toProjectPath(match[1]),
+      line: Number(match[2]),
+      column: Number(match[3]),
+      severity: match[4] as Diagnostic["severity"],
+      code: match[5],
+      message: match[6],
+    });
+  }
+
+  return diagnostics;
+}
+
+export async function runLint(files: string[]): Promise<Diagnostic[]> {
+  if (files.length === 0) return [];
+
+  const quoted = files.map((file) => JSON.stringify(file)).join(" ");
+  const check = await runCheck(`npx eslint --format json ${quoted}`);
+  if ("failure" in check) return [checkFailure("eslint", check.failure)];
+
+  let results: {
+    filePath: string;
+    messages: {
+      ruleId: string | null;
+      severity: number;
+      message: string;
+      line?: number;
+      column?: number;
+    }[];
+  }[];
+  try {
+    results = JSON.parse(check.stdout);
+  } catch {
+    // Crash output on stdout rather than the JSON report
+    return [checkFailure("eslint", check.stdout.trim())];
+  }
+
+  return results.flatMap((result) =>
+    result.messages.map((message) => ({
+      source: "eslint" as const,
+      file: toProjectPath(result.filePath),
+      line: message.line ?? 0,
+      column: message.column ?? 0,
+      severity:
+        message.severity === 2 ? ("error" as const) : ("warning" as const),
+      code: message.ruleId ?? undefined,
+      message: message.message,
+    }))
+  );
+}
+
+export function isCheckFailure(diagnostic: Diagnostic) {
+  return diagnostic.code === CHECK_FAILED;
+}
+
+export function isVerifiableFile(file: string) {
+  return SOURCE_FILE.test(file) && fs.existsSync(file);
+}
+
+export async function verifyFiles(
+  files: string[],
+  settings: VerifySettings = {}
+): Promise<Diagnostic[]> {
+  // Sequential on purpose: both are memory hungry on large projects
+  const typeErrors =
+    settings.typecheck === false ? [] : await runTypeCheck(files);
+  const lintErrors = settings.lint === false ? [] : await runLint(files);
+  return [...typeErrors, ...lintErrors];
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic) {
+  const code = diagnostic.code ? ` ${diagnostic.code}` : "";
+  return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} ${diagnostic.source}${code} ${diagnostic.severity}: ${diagnostic.message}`;
+}
+
+export function formatRepairPrompt(diagnostics: Diagnostic[]) {
+  return `The files you changed do not pass verification yet. Fix every error below by editing the affected files, then briefly say what you changed. Do not create unrelated files.
+
+${diagnostics
+  .filter(
+    (diagnostic) =>
+      diagnostic.severity === "error" && !isCheckFailure(diagnostic)
+  )
+  .map(formatDiagnostic)
+  .join("\n")}`;
+}
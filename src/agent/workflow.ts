@@ -0,0 +1,276 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { isToolSuccess } from "./tool-middleware";
+import type { AgentPlan } from "./planner";
+import type { WorkflowReport, WorkflowStage } from "../types";
+
+export const WORKFLOW_STAGES: WorkflowStage[] = [
+  "analyze",
+  "schema",
+  "generate_migration",
+  "migrate",
+  "api",
+  "hook",
+  "integrate",
+];
+
+// Read-only tools every stage may use, plus the stage control tool
+const COMMON_TOOLS = [
+  "list_files",
+  "read_file",
+  "search_code",
+  "update_project_memory",
+  "finish_stage",
+];
+
+interface ToolOutcome {
+  toolName: string;
+  input: any;
+  output: any;
+}
+
+interface StageDefinition {
+  tools: string[];
+  goal: string;
+  // Whether the tool results seen so far satisfy the stage
+  isComplete?: (state: WorkflowState) => boolean;
+}
+
+interface WorkflowState {
+  entities: Set<string>;
+  tables: Set<string>;
+  endpoints: Set<string>;
+  hooks: number;
+  migrationsGenerated: boolean;
+  migrationsApplied: boolean;
+  analyzed: boolean;
+}
+
+function coversAll(expected: Set<string>, actual: Set<string>) {
+  return actual.size > 0 && [...expected].every((name) => actual.has(name));
+}
+
+const STAGES: Record<WorkflowStage, StageDefinition> = {
+  analyze: {
+    tools: [
+      "analyze_request",
+      "analyze_project_structure",
+      "analyze_component_data_usage",
+    ],
+    goal: "Identify every distinct entity in the request with analyze_request. Each entity becomes its own table.",
+    isComplete: (state) => state.analyzed,
+  },
+  schema: {
+    tools: [
+      "create_schema",
+      "create_multiple_schemas",
+      "create_database_connection",
+      "edit_file",
+    ],
+    goal: "Create a Drizzle schema for every identified entity. Use create_multiple_schemas when there is more than one.",
+    isComplete: (state) => coversAll(state.entities, state.tables),
+  },
+  generate_migration: {
+    tools: ["run_migration"],
+    goal: 'Generate migrations for the new schemas with run_migration action "generate".',
+    isComplete: (state) => state.migrationsGenerated,
+  },
+  migrate: {
+    tools: ["run_migration", "seed_database"],
+    goal: 'Apply the migrations with run_migration action "migrate".',
+    isComplete: (state) => state.migrationsApplied,
+  },
+  api: {
+    tools: ["create_api_endpoint", "update_api_types", "edit_file"],
+    goal: "Create an API route for each new table if the request needs API access.",
+    isComplete: (state) => coversAll(state.tables, state.endpoints),
+  },
+  hook: {
+    tools: ["create_api_client_hook", "create_custom_hook", "edit_file"],
+    goal: "Create a client hook for each new API endpoint.",
+    isComplete: (state) =>
+      state.hooks > 0 && state.hooks >= state.endpoints.size,
+  },
+  integrate: {
+    tools: [
+      "integrate_api_with_component",
+      "update_component_types",
+      "analyze_component_data_usage",
+      "edit_file",
+    ],
+    goal: "Wire the new hooks into the existing components in place of their static data. Call finish_stage when done.",
+  },
+};
+
+export type Workflow = ReturnType<typeof createWorkflow>;
+
+// An approved plan already answers which stages the request needs
+export function stagesSkippedByPlan(plan: AgentPlan): WorkflowStage[] {
+  const touches = (pattern: RegExp) =>
+    plan.files.some((file) => pattern.test(file.path));
+  const needed: Record<WorkflowStage, boolean> = {
+    analyze: plan.entities.length === 0,
+    schema: plan.entities.length > 0,
+    generate_migration: plan.migrations.includes("generate"),
+    migrate: plan.migrations.some((action) => action !== "generate"),
+    api: touches(/(^|\/)app\/api\//),
+    hook: touches(/(^|\/)hooks\//),
+    integrate: plan.components.length > 0,
+  };
+  return WORKFLOW_STAGES.filter((stage) => !needed[stage]);
+}
+
+/**
+ * Deterministic pipeline for database tasks. The runner, not the prompt,
+ * decides which stage the agent is in: each stage exposes only its own tools
+ * and the workflow advances as soon as tool results satisfy the stage.
+ */
+export function createWorkflow(
+  options: {
+    skip?: WorkflowStage[];
+    // Entities known up front, e.g. from an approved plan
+    entities?: string[];
+    onStageChange?: (
+      from: WorkflowStage,
+      to: WorkflowStage | null,
+      skipped: boolean
+    ) => void;
+  } = {}
+) {
+  const stages = WORKFLOW_STAGES.filter(
+    (stage) => !options.skip?.includes(stage)
+  );
+  const completed: WorkflowStage[] = [];
+  const skipped: WorkflowStage[] = [...(options.skip ?? [])];
+  // Results are tracked by identity: providers may reuse call ids across turns
+  const seenResults = new WeakSet<ToolOutcome>();
+  const state: WorkflowState = {
+    entities: new Set(options.entities),
+    tables: new Set(),
+    endpoints: new Set(),
+    hooks: 0,
+    migrationsGenerated: false,
+    migrationsApplied: false,
+    analyzed: false,
+  };
+  let index = 0;
+
+  const current = (): WorkflowStage | null => stages[index] ?? null;
+
+  function advance(finished: boolean) {
+    const from = current();
+    if (!from) return;
+    (finished ? completed : skipped).push(from);
+    index++;
+    options.onStageChange?.(from, current(), !finished);
+  }
+
+  function record({ toolName, input, output }: ToolOutcome) {
+    if (!isToolSuccess(output)) return;
+
+    switch (toolName) {
+      case "analyze_request":
+        state.analyzed = true;
+        for (const entity of output.entities ?? []) {
+          state.entities.add(entity.name);
+        }
+        break;
+      case "create_schema":
+        state.tables.add(input.tableName);
+        break;
+      case "create_multiple_schemas":
+        for (const entity of input.entities ?? []) {
+          state.tables.add(entity.name);
+        }
+        break;
+      case "run_migration":
+        if (input.action === "generate") state.migrationsGenerated = true;
+        else state.migrationsApplied = true;
+        break;
+      case "create_api_endpoint":
+        state.endpoints.add(input.tableName);
+        break;
+      case "create_api_client_hook":
+      case "create_custom_hook":
+        state.hooks++;
+        break;
+      case "finish_stage":
+        // Explicit hand-off from the agent: the stage is done or not needed
+        advance(!output.skipped);
+        return;
+    }
+
+    // A single result can satisfy several stages in a row
+    let stage = current();
+    while (stage && STAGES[stage].isComplete?.(state)) {
+      advance(true);
+      stage = current();
+    }
+  }
+
+  return {
+    get stage() {
+      return current();
+    },
+
+    isDone() {
+      return current() === null;
+    },
+
+    // Feed the results of finished steps; each tool call is counted once
+    sync(steps: { toolResults: ToolOutcome[] }[]) {
+      for (const step of steps) {
+        for (const result of step.toolResults) {
+          if (seenResults.has(result)) continue;
+          seenResults.add(result);
+          record(result);
+        }
+      }
+    },
+
+    activeTools(): string[] {
+      const stage = current();
+      // Once done, only the project memory can still be updated
+      return stage
+        ? [...COMMON_TOOLS, ...STAGES[stage].tools]
+        : ["update_project_memory"];
+    },
+
+    instructions(): string {
+      const stage = current();
+      if (!stage) {
+        return "**All workflow stages are complete.** Record what was built and any new conventions with update_project_memory, then summarize what was done for the user.";
+      }
+      const position = stages.indexOf(stage) + 1;
+      return `**Current workflow stage: ${stage} (${position} of ${stages.length})**
+Goal: ${STAGES[stage].goal}
+Only the tools for this stage are available. The workflow moves on automatically once the goal is met. If this stage is not needed for the request, call finish_stage with skipped set to true.
+Remaining stages: ${stages.slice(position).join(" → ") || "none"}`;
+    },
+
+    report(): WorkflowReport {
+      return {
+        stageReached: current() ?? "done",
+        completed: [...completed],
+        skipped: [...skipped],
+      };
+    },
+  };
+}
+
+export const workflowTools = {
+  finish_stage: tool({
+    description:
+      "Hand off the current workflow stage: mark it finished, or skipped when the request does not need it.",
+    inputSchema: z.object({
+      skipped: z
+        .boolean()
+        .describe("True when the stage is not needed for this request"),
+      reason: z.string().describe("Why the stage is finished or skipped"),
+    }),
+    execute: async ({ skipped, reason }) => {
+      console.log(`⏭️ ${skipped ? "Skipping" : "Finishing"} stage: ${reason}`);
+      return { success: true, skipped, reason };
+    },
+  }),
+};
@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+
+export interface FileChange {
+  path: string;
+  // null when the file did not exist before the run
+  before: string | null;
+  after: string;
+}
+
+// In dry-run mode every write lands in this in-memory overlay instead of on
+// disk. Reads consult the overlay first, so later tool calls see earlier ones.
+let overlay: Map<string, string> | null = null;
+
+// Called before anything is created or overwritten on disk, with the
+// project-relative path, so callers can snapshot it first.
+export type BeforeWriteHook = (key: string, kind: "file" | "dir") => void;
+let beforeWrite: BeforeWriteHook | null = null;
+
+export function setBeforeWrite(hook: BeforeWriteHook | null) {
+  beforeWrite = hook;
+}
+
+function toKey(filePath: string): string {
+  return path.relative(process.cwd(), path.resolve(filePath)) || ".";
+}
+
+function readFromDisk(key: string): string | null {
+  return fs.existsSync(key) && fs.statSync(key).isFile()
+    ? fs.readFileSync(key, "utf-8")
+    : null;
+}
+
+export function enableDryRun() {
+  overlay = new Map();
+}
+
+export function disableDryRun() {
+  overlay = null;
+}
+
+export function isDryRun(): boolean {
+  return overlay !== null;
+}
+
+/**
+ * Every file the dry run would have written, compared with what is on disk.
+ * Files written with unchanged content are left out.
+ */
+export function getPendingChanges(): FileChange[] {
+  if (!overlay) return [];
+
+  return Array.from(overlay.entries())
+    .map(([key, after]) => ({ path: key, before: readFromDisk(key), after }))
+    .filter((change) => change.before !== change.after)
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// File access for agent tools. Tools must go through here rather than `fs`
+// so dry runs never touch the project.
+export const workspace = {
+  exists(filePath: string): boolean {
+    const key = toKey(filePath);
+    if (fs.existsSync(key)) return true;
+    if (!overlay) return false;
+
+    // Directories only exist virtually when a pending file lives under them
+    return Array.from(overlay.keys()).some(
+      (file) => file === key || file.startsWith(`${key}${path.sep}`)
+    );
+  },
+
+  readFile(filePath: string): string {
+    const key = toKey(filePath);
+    const pending = overlay?.get(key);
+    if (pending !== undefined) return pending;
+    return fs.readFileSync(key, "utf-8");
+  },
+
+  writeFile(filePath: string, content: string) {
+    const key = toKey(filePath);
+    if (overlay) {
+      overlay.set(key, content);
+      return;
+    }
+
+    const dir = path.dirname(key);
+    if (!fs.existsSync(dir)) {
+      beforeWrite?.(dir, "dir");
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    beforeWrite?.(key, "file");
+    fs.writeFileSync(key, content);
+  },
+
+  mkdir(dirPath: string) {
+    // Directories are created on demand by writeFile in dry-run mode
+    if (overlay) return;
+    const key = toKey(dirPath);
+    if (fs.existsSync(key)) return;
+    beforeWrite?.(key, "dir");
+    fs.mkdirSync(key, { recursive: true });
+  },
+
+  // Size of a file in bytes
+  size(filePath: string): number {
+    const key = toKey(filePath);
+    const pending = overlay?.get(key);
+    if (pending !== undefined) return Buffer.byteLength(pending);
+    return fs.statSync(key).size;
+  },
+
+  isDirectory(dirPath: string): boolean {
+    const key = toKey(dirPath);
+    if (fs.existsSync(key)) return fs.statSync(key).isDirectory();
+    // Pending files make their parent directories exist virtually
+    return overlay !== null && !overlay.has(key) && this.exists(dirPath);
+  },
+
+  readdir(dirPath: string): string[] {
+    const key = toKey(dirPath);
+    const entries = new Set<string>(
+      fs.existsSync(key) ? fs.readdirSync(key) : []
+    );
+
+    if (overlay) {
+      const prefix = key === "." ? "" : `${key}${path.sep}`;
+      for (const file of overlay.keys()) {
+        if (file.startsWith(prefix)) {
+          entries.add(file.slice(prefix.length).split(path.sep)[0]);
+        }
+      }
+    }
+
+    if (entries.size === 0 && !this.exists(dirPath)) {
+      throw new Error(
+        `ENOENT: no such file or directory, scandir '${dirPath}'`
+      );
+    }
+
+    return Array.from(entries).sort();
+  },
+};
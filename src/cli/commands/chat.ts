@@ -0,0 +1,115 @@
+import inquirer from "inquirer";
+import chalk from "chalk";
+import { databaseAgent } from "../../agent/core";
+import {
+  createSession,
+  listSessions,
+  loadSession,
+  saveSession,
+  type ChatSession,
+} from "../../agent/sessions";
+import { createProgressRenderer } from "../utils/progress";
+import { createApprover } from "../utils/approval-prompt";
+import { reportError } from "../utils/error-report";
+import { logger } from "../utils/logger";
+
+interface ChatOptions {
+  resume?: string;
+  list?: boolean;
+  model?: string;
+  profile?: string;
+  verbose?: boolean;
+  yes?: boolean;
+}
+
+const EXIT_COMMANDS = ["exit", "quit", "/exit", "/quit"];
+
+function printSessions() {
+  const sessions = listSessions();
+  console.log(chalk.cyan.bold("\n💬 Chat Sessions:"));
+
+  if (sessions.length === 0) {
+    logger.info("No chat sessions saved yet");
+    return;
+  }
+
+  sessions.forEach((session) => {
+    const turns = session.messages.filter((m) => m.role === "user").length;
+    console.log(
+      `  • ${chalk.cyan(session.id)} ${chalk.gray(
+        `${turns} turn(s), updated ${session.updatedAt}`
+      )} ${chalk.white(session.title)}`
+    );
+  });
+}
+
+async function askForInput(): Promise<string | null> {
+  try {
+    const { message } = await inquirer.prompt([
+      { type: "input", name: "message", message: chalk.green("you ›") },
+    ]);
+    return message;
+  } catch {
+    // Ctrl+C / Ctrl+D while waiting for input ends the chat
+    return null;
+  }
+}
+
+export async function chatCommand(options: ChatOptions = {}) {
+  if (options.list) {
+    printSessions();
+    return;
+  }
+
+  const session: ChatSession = options.resume
+    ? loadSession(options.resume)
+    : createSession(options.model, options.profile);
+  const model = options.model ?? session.model;
+  const profile = options.profile ?? session.profile;
+
+  console.log(chalk.cyan.bold("\n💬 Database Agent Chat"));
+  if (options.resume) {
+    const turns = session.messages.filter((m) => m.role === "user").length;
+    logger.info(`Resumed session ${session.id} (${turns} earlier turn(s))`);
+  } else {
+    logger.info(`New session ${session.id}`);
+  }
+  console.log(
+    chalk.gray('Type "exit" to leave. The session is saved after every turn.\n')
+  );
+
+  while (true) {
+    const input = await askForInput();
+    if (input === null || EXIT_COMMANDS.includes(input.trim().toLowerCase())) {
+      break;
+    }
+    if (!input.trim()) continue;
+
+    const progress = createProgressRenderer({ verbose: options.verbose });
+
+    try {
+      const result = await databaseAgent(input, {
+        model,
+        profile,
+        messages: session.messages,
+        onEvent: progress.onEvent,
+        approve: createApprover({ yes: options.yes }),
+      });
+      progress.stop();
+
+      session.messages = result.messages;
+      session.title ||= input.slice(0, 60);
+      saveSession(session);
+    } catch (error) {
+      progress.stop();
+      logger.error("Turn failed:");
+      reportError(error);
+    }
+  }
+
+  if (session.messages.length > 0) {
+    logger.info(
+      `Session saved. Continue later with: agent chat --resume ${session.id}`
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import chalk from "chalk";
+import inquirer from "inquirer";
+import {
+  MEMORY_FILE,
+  MEMORY_SECTIONS,
+  loadMemory,
+  readMemoryEntries,
+  saveMemory,
+  type MemorySection,
+} from "../../agent/memory";
+import { logger } from "../utils/logger";
+
+interface MemoryOptions {
+  edit?: boolean;
+}
+
+function printMemory() {
+  const entries = readMemoryEntries();
+  const sections = Object.keys(MEMORY_SECTIONS) as MemorySection[];
+
+  console.log(
+    chalk.cyan.bold(`\n🧠 Project Memory ${chalk.gray(`(${MEMORY_FILE})`)}`)
+  );
+  if (sections.every((section) => entries[section].length === 0)) {
+    logger.info("Nothing recorded yet. The agent adds entries as it works.");
+    return;
+  }
+
+  for (const section of sections) {
+    if (entries[section].length === 0) continue;
+    console.log(chalk.yellow.bold(`\n${MEMORY_SECTIONS[section]}:`));
+    entries[section].forEach((entry) => console.log(`  • ${entry}`));
+  }
+}
+
+export async function memoryCommand(options: MemoryOptions = {}) {
+  if (!options.edit) {
+    printMemory();
+    return;
+  }
+
+  const { edited } = await inquirer.prompt([
+    {
+      type: "editor",
+      name: "edited",
+      message: "Edit the project memory",
+      default: loadMemory(),
+      postfix: ".md",
+    },
+  ]);
+  saveMemory(edited);
+  logger.success(`Saved ${MEMORY_FILE}`);
+  printMemory();
+}
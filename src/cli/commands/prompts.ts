@@ -0,0 +1,60 @@
+import chalk from "chalk";
+import { DEFAULT_PROFILE, listProfiles } from "../../agent/profiles";
+import {
+  PROMPT_NAMES,
+  buildSystemPrompt,
+  findPromptName,
+  projectPromptPath,
+  promptFileName,
+  renderPrompt,
+} from "../../agent/prompts/templates";
+
+/**
+ * Print a prompt exactly as the model gets it. A profile name shows its whole
+ * system prompt; a template name, e.g. "planner", just that template.
+ */
+export async function promptsShowCommand(name: string = DEFAULT_PROFILE) {
+  const profile = listProfiles().find((candidate) => candidate.name === name);
+  const template = findPromptName(name);
+
+  if (!profile && !template) {
+    throw new Error(
+      `Unknown prompt "${name}". Use a profile (${listProfiles()
+        .map((candidate) => candidate.name)
+        .join(", ")}) or a template (${PROMPT_NAMES.map((prompt) =>
+        promptFileName(prompt).replace(/\.md$/, "")
+      ).join(", ")})`
+    );
+  }
+
+  if (profile) {
+    console.log(
+      chalk.cyan.bold(`\n📜 System prompt of the ${profile.name} profile:\n`)
+    );
+    console.log(buildSystemPrompt(profile.prompt, profile.tools));
+    if (profile.stages) {
+      console.log(
+        chalk.gray(
+          "\n(The current workflow stage's instructions are appended before every step.)"
+        )
+      );
+    }
+    return;
+  }
+
+  console.log(chalk.cyan.bold(`\n📜 ${promptFileName(template!)}:\n`));
+  console.log(renderPrompt(template!));
+}
+
+// Every template and whether the project overrides it
+export async function promptsListCommand() {
+  console.log(chalk.cyan.bold("\n📜 Prompt Templates:"));
+  for (const name of PROMPT_NAMES) {
+    const override = projectPromptPath(name);
+    console.log(
+      `${chalk.white(promptFileName(name).padEnd(22))} ${
+        override ? chalk.green(`project (${override})`) : chalk.gray("built-in")
+      }`
+    );
+  }
+}
@@ -1,15 +1,47 @@
-import { databaseAgent } from "../../agent/core";
+import { databaseAgent, toRunReport } from "../../agent/core";
+import { delegate } from "../../agent/orchestrator";
+import { createPlan, type AgentPlan } from "../../agent/planner";
+import {
+  disableDryRun,
+  enableDryRun,
+  getPendingChanges,
+} from "../../agent/workspace";
+import { printFileChanges } from "../utils/diff";
+import { createProgressRenderer } from "../utils/progress";
+import {
+  printDelegationReport,
+  printRunSummary,
+  printUsage,
+} from "../utils/run-summary";
+import { reviewPlan } from "../utils/plan-review";
+import { createApprover } from "../utils/approval-prompt";
+import { printJson } from "../utils/json-output";
+import {
+  reportError,
+  setDelegationExitCode,
+  setPolicyExitCode,
+} from "../utils/error-report";
 import { createSpinner } from "../utils/spinner";
 import { logger } from "../utils/logger";
 import chalk from "chalk";
+import type { TokenUsage, UsageReport } from "../../types";
 
 interface QueryOptions {
   verbose?: boolean;
   dryRun?: boolean;
+  model?: string;
+  profile?: string;
+  plan?: boolean;
+  delegate?: boolean;
+  verify?: boolean;
+  maxTokens?: number;
+  maxCost?: number;
+  yes?: boolean;
+  json?: boolean;
 }
 
 export async function queryCommand(text: string, options: QueryOptions = {}) {
-  const { verbose, dryRun } = options;
+  const { verbose, dryRun, model } = options;
 
   // Display query info
   console.log(chalk.cyan.bold("\n🎯 Query Received:"));
@@ -19,86 +51,83 @@ export async function queryCommand(text: string, options: QueryOptions = {}) {
     logger.warning("Dry run mode: No actual changes will be made");
   }
 
-  const spinner = createSpinner("Processing your database query...");
+  const progress = createProgressRenderer({ verbose });
 
   try {
-    spinner.start();
-
-    // Add dry run context to the prompt if needed
-    const enhancedPrompt = dryRun
-      ? `${text}\n\nNOTE: This is a dry run. Please explain what you would do but don't actually execute any file changes or database operations.`
-      : text;
-
-    logger.info(`\nExecuting query: "${text}"`);
-
-    const result = await databaseAgent(enhancedPrompt);
-
-    spinner.succeed("Query completed successfully!");
-
-    // Display agent response
-    console.log(chalk.cyan.bold("\n🤖 Agent Response:"));
-    console.log(chalk.white(result.response));
-
-    // Display steps if verbose mode or if there are interesting steps
-    if (
-      (verbose || result.steps.length > 3) &&
-      result.steps &&
-      result.steps.length > 0
-    ) {
-      console.log(chalk.yellow.bold("\n📋 Execution Steps:"));
-      result.steps.forEach((step, index) => {
-        const stepNum = chalk.cyan(`[${index + 1}]`);
-        // Fix: Use correct property names for step object
-        const stepType = chalk.magenta((step as any).toolName || "processing");
-        const stepResult = (step as any).result;
-        const stepDesc = stepResult
-          ? typeof stepResult === "object" && stepResult.success !== undefined
-            ? stepResult.success
-              ? chalk.green("✅ Success")
-              : chalk.red("❌ Failed")
-            : "Completed"
-          : "Processing...";
-
-        console.log(`${stepNum} ${stepType}: ${stepDesc}`);
-
-        if (verbose && stepResult && typeof stepResult === "object") {
-          // Show additional details in verbose mode
-          if (stepResult.path) {
-            console.log(`    📁 File: ${stepResult.path}`);
-          }
-          if (stepResult.tableName) {
-            console.log(`    🗄️ Table: ${stepResult.tableName}`);
-          }
-          if (stepResult.endpoint) {
-            console.log(`    🔗 Endpoint: ${stepResult.endpoint}`);
-          }
+    let approvedPlan: AgentPlan | undefined;
+    let planUsage: TokenUsage | undefined;
+    // Delegation splits the plan into sub-agent tasks, so it always plans
+    if (options.plan || options.delegate) {
+      const planSpinner = createSpinner("Planning changes...");
+      planSpinner.start();
+      let proposed: AgentPlan;
+      try {
+        ({ plan: proposed, usage: planUsage } = await createPlan(text, {
+          model,
+        }));
+      } catch (error) {
+        planSpinner.fail("Failed to create a plan");
+        throw error;
+      }
+      if (options.plan) {
+        planSpinner.succeed("Plan ready for review");
+        const reviewed = await reviewPlan(proposed);
+        if (!reviewed) {
+          logger.info("Plan cancelled. No changes were made.");
+          return;
         }
-      });
+        approvedPlan = reviewed;
+      } else {
+        planSpinner.succeed(
+          `Split into tasks for ${proposed.entities.length} table(s)`
+        );
+        approvedPlan = proposed;
+      }
     }
 
-    // Display usage statistics
-    if (result.usage) {
-      console.log(chalk.gray.bold("\n📊 Usage Statistics:"));
-      // Fix: Access usage properties that actually exist on AI SDK v5 LanguageModelV2Usage
-      console.log(
-        chalk.gray(
-          `Prompt tokens: ${(result.usage as any).promptTokens || "N/A"}`
-        )
-      );
-      console.log(
-        chalk.gray(
-          `Completion tokens: ${
-            (result.usage as any).completionTokens || "N/A"
-          }`
-        )
-      );
-      console.log(
-        chalk.gray(
-          `Total tokens: ${(result.usage as any).totalTokens || "N/A"}`
-        )
-      );
+    logger.info(`\nExecuting query: "${text}"\n`);
+
+    // Dry runs are enforced at the tool layer: writes go to an in-memory
+    // overlay and migrations are simulated
+    if (dryRun) {
+      enableDryRun();
     }
 
+    const agentOptions = {
+      model,
+      profile: options.profile,
+      onEvent: progress.onEvent,
+      plan: approvedPlan,
+      planUsage,
+      verify: options.verify,
+      budget: { maxTokens: options.maxTokens, maxCost: options.maxCost },
+      approve: createApprover({ yes: options.yes, dryRun }),
+    };
+
+    let usage: UsageReport;
+    if (options.delegate) {
+      const report = await delegate(text, agentOptions);
+      progress.stop();
+      printDelegationReport(report);
+      usage = report.usage;
+      if (options.json) printJson(report);
+      setDelegationExitCode(report);
+    } else {
+      const result = await databaseAgent(text, agentOptions);
+      progress.stop();
+      printRunSummary(result, { verbose });
+      usage = result.usage;
+      if (options.json) printJson(toRunReport(result));
+      setPolicyExitCode(result.violations);
+    }
+
+    if (dryRun) {
+      console.log(chalk.yellow.bold("\n📝 Proposed Changes:"));
+      printFileChanges(getPendingChanges());
+    }
+
+    printUsage(usage, verbose);
+
     // Show next steps or recommendations
     console.log(chalk.green.bold("\n✨ Next Steps:"));
     if (dryRun) {
@@ -115,35 +144,22 @@ export async function queryCommand(text: string, options: QueryOptions = {}) {
       console.log(chalk.white("• Run the database migrations if needed"));
     }
   } catch (error) {
-    spinner.fail("Failed to process query");
+    progress.stop();
 
     logger.error("Query execution failed:");
-
-    if (error instanceof Error) {
-      console.log(chalk.red(error.message));
-
-      // Provide helpful suggestions based on error type
-      if (error.message.includes("API key")) {
-        logger.info(
-          "💡 Make sure GOOGLE_GENERATIVE_AI_API_KEY is set in your .env.local file"
-        );
-      } else if (
-        error.message.includes("network") ||
-        error.message.includes("fetch")
-      ) {
-        logger.info("💡 Check your internet connection and try again");
-      } else if (
-        error.message.includes("database") ||
-        error.message.includes("DATABASE_URL")
-      ) {
-        logger.info(
-          "💡 Make sure DATABASE_URL is configured in your .env.local file"
-        );
-      }
-    } else {
-      console.log(chalk.red(String(error)));
+    const failure = reportError(error);
+
+    if (options.json) {
+      printJson({
+        error: failure.message,
+        code: failure.code,
+        remediation: failure.remediation,
+        rolledBack: failure.rolledBack ?? [],
+      });
     }
 
-    process.exit(1);
+    process.exit(failure.exitCode);
+  } finally {
+    disableDryRun();
   }
 }
@@ -0,0 +1,80 @@
+import chalk from "chalk";
+import { replayAgent } from "../../agent/core";
+import { loadTrace, traceStart } from "../../agent/traces";
+import {
+  disableDryRun,
+  enableDryRun,
+  getPendingChanges,
+} from "../../agent/workspace";
+import { printFileChanges } from "../utils/diff";
+import { createProgressRenderer } from "../utils/progress";
+import { printRunSummary } from "../utils/run-summary";
+import { logger } from "../utils/logger";
+
+interface ReplayOptions {
+  verbose?: boolean;
+}
+
+export async function replayCommand(
+  trace: string,
+  options: ReplayOptions = {}
+) {
+  const start = traceStart(loadTrace(trace));
+
+  console.log(chalk.cyan.bold("\n🔁 Replaying Trace:"));
+  console.log(chalk.white(`"${start.prompt}"`));
+  logger.info(`Recorded with ${start.model} (${start.profile} profile)`);
+  // Replays never touch the project: writes go to the dry-run overlay
+  logger.warning("Replaying against a mock model; no changes will be made\n");
+
+  const progress = createProgressRenderer({ verbose: options.verbose });
+  enableDryRun();
+
+  try {
+    const result = await replayAgent(trace, { onEvent: progress.onEvent });
+    progress.stop();
+
+    printRunSummary(result, { verbose: options.verbose, label: "Replay" });
+    if (options.verbose) {
+      console.log(chalk.yellow.bold("\n📝 Replayed Changes:"));
+      printFileChanges(getPendingChanges());
+    }
+
+    const { mismatches, unusedResponses } = result;
+    if (unusedResponses > 0) {
+      logger.info(
+        `${unusedResponses} recorded model response(s) were not needed, e.g. repair turns after verification`
+      );
+    }
+    if (mismatches.length === 0) {
+      logger.success("Every tool call matched the recorded run");
+      return;
+    }
+
+    console.log(
+      chalk.red.bold("\n❗ Tool calls that differ from the recording:")
+    );
+    for (const { index, recorded, replayed } of mismatches) {
+      const describe = (call: typeof recorded) =>
+        call
+          ? `${call.toolName} ${call.success ? "succeeded" : "failed"}`
+          : "no call";
+      console.log(
+        `${chalk.cyan(`[${index + 1}]`)} recorded: ${describe(
+          recorded
+        )}, replayed: ${describe(replayed)}`
+      );
+      if (replayed?.error) console.log(chalk.gray(`    ${replayed.error}`));
+    }
+    process.exit(1);
+  } catch (error) {
+    progress.stop();
+    logger.error(
+      "Replay failed:",
+      error instanceof Error ? error.message : String(error)
+    );
+    process.exit(1);
+  } finally {
+    disableDryRun();
+  }
+}
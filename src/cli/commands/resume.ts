@@ -0,0 +1,46 @@
+import chalk from "chalk";
+import { resumeAgent } from "../../agent/core";
+import { loadRun } from "../../agent/runs";
+import { createProgressRenderer } from "../utils/progress";
+import { createApprover } from "../utils/approval-prompt";
+import { printRunSummary, printUsage } from "../utils/run-summary";
+import { reportError, setPolicyExitCode } from "../utils/error-report";
+import { logger } from "../utils/logger";
+
+interface ResumeOptions {
+  verbose?: boolean;
+  model?: string;
+  verify?: boolean;
+  yes?: boolean;
+}
+
+export async function resumeCommand(
+  runId: string,
+  options: ResumeOptions = {}
+) {
+  const run = loadRun(runId);
+
+  console.log(chalk.cyan.bold("\n⏯️  Resuming Run:"));
+  console.log(`${chalk.cyan(run.id)} ${chalk.white(`"${run.prompt}"`)}`);
+  logger.info(`Previous status: ${run.status}\n`);
+
+  const progress = createProgressRenderer({ verbose: options.verbose });
+
+  try {
+    const result = await resumeAgent(runId, {
+      model: options.model,
+      verify: options.verify,
+      onEvent: progress.onEvent,
+      approve: createApprover({ yes: options.yes }),
+    });
+    progress.stop();
+
+    printRunSummary(result, { verbose: options.verbose, label: "Resume" });
+    printUsage(result.usage, options.verbose);
+    setPolicyExitCode(result.violations);
+  } catch (error) {
+    progress.stop();
+    logger.error("Resume failed:");
+    process.exit(reportError(error).exitCode);
+  }
+}
@@ -1,4 +1,5 @@
 import { logger } from "../utils/logger";
+import { resolveModel } from "../../agent/providers";
 import chalk from "chalk";
 import fs from "fs";
 import path from "path";
@@ -100,6 +101,16 @@ export async function statusCommand(options: StatusOptions = {}) {
       logger.error("Environment file not found");
     }
 
+    try {
+      logger.info(`Model: ${resolveModel().spec}`);
+    } catch (error) {
+      logger.warning(
+        `Model configuration invalid: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
     // Detailed analysis if requested
     if (all) {
       console.log(chalk.cyan.bold("\n📁 Detailed File Analysis:"));
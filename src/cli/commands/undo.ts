@@ -0,0 +1,57 @@
+import { getRunFiles, listRuns, undoRun } from "../../agent/runs";
+import { logger } from "../utils/logger";
+import chalk from "chalk";
+
+interface UndoOptions {
+  list?: boolean;
+}
+
+const statusColors = {
+  running: chalk.yellow,
+  completed: chalk.green,
+  "rolled-back": chalk.red,
+  undone: chalk.gray,
+};
+
+export async function undoCommand(runId?: string, options: UndoOptions = {}) {
+  const runs = listRuns();
+
+  if (options.list) {
+    console.log(chalk.cyan.bold("\n🕘 Agent Runs:"));
+    if (runs.length === 0) {
+      logger.info("No runs recorded yet");
+      return;
+    }
+    runs.forEach((run) => {
+      const files = getRunFiles(run.id).length;
+      console.log(
+        `  • ${chalk.cyan(run.id)} ${statusColors[run.status](
+          run.status
+        )} ${chalk.gray(`${files} file(s)`)} ${chalk.white(`"${run.prompt}"`)}`
+      );
+    });
+    return;
+  }
+
+  // Default to the most recent run that can still be undone
+  const targetId =
+    runId ??
+    [...runs].reverse().find((run) => run.status === "completed")?.id;
+
+  if (!targetId) {
+    logger.info("Nothing to undo");
+    return;
+  }
+
+  const undone = undoRun(targetId);
+  if (undone.length === 0) {
+    logger.info(`Run ${targetId} has already been undone or rolled back`);
+    return;
+  }
+
+  console.log(chalk.cyan.bold("\n⏪ Undo Complete:"));
+  undone.forEach(({ run, files }) => {
+    logger.success(`Undid run ${run.id} "${run.prompt}"`);
+    files.forEach((file) => console.log(chalk.gray(`    ↩ ${file}`)));
+  });
+}
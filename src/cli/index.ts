@@ -1,10 +1,21 @@
 #!/usr/bin/env node
 
-import { Command } from "commander";
+// First, so nothing printed while the other modules load reaches stdout
+// under --json
+import "./utils/json-output";
+import { Command, InvalidArgumentError } from "commander";
 import { initCommand } from "./commands/init";
 import { queryCommand } from "./commands/query";
 import { statusCommand } from "./commands/status";
+import { undoCommand } from "./commands/undo";
+import { resumeCommand } from "./commands/resume";
+import { replayCommand } from "./commands/replay";
+import { promptsListCommand, promptsShowCommand } from "./commands/prompts";
+import { memoryCommand } from "./commands/memory";
+import { chatCommand } from "./commands/chat";
 import { logger } from "./utils/logger";
+import { getActiveRun, rollbackRun } from "../agent/runs";
+import { listProfiles } from "../agent/profiles";
 import chalk from "chalk";
 import { config } from "dotenv";
 
@@ -13,6 +24,18 @@ config({ path: ".env.local" });
 
 const program = new Command();
 
+function parsePositiveNumber(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError("Expected a positive number.");
+  }
+  return parsed;
+}
+
+const profileNames = listProfiles()
+  .map((profile) => profile.name)
+  .join(", ");
+
 // Display banner
 console.log(
   chalk.blue.bold(`
@@ -54,6 +77,32 @@ program
   .description("Execute a natural language database query")
   .option("-v, --verbose", "Show detailed execution steps")
   .option("-d, --dry-run", "Show what would be done without executing")
+  .option(
+    "-m, --model <provider:id>",
+    "Model to use, e.g. google:gemini-1.5-flash, ollama:qwen2.5-coder or mock:test"
+  )
+  .option("--profile <name>", `Agent profile to use (${profileNames})`)
+  .option("-p, --plan", "Review and approve a plan before any changes are made")
+  .option(
+    "--delegate",
+    "Split the request into per-table tasks for specialized sub-agents"
+  )
+  .option("--no-verify", "Skip type-checking and linting the changed files")
+  .option(
+    "--max-tokens <n>",
+    "Stop before the run uses more than this many tokens",
+    parsePositiveNumber
+  )
+  .option(
+    "--max-cost <usd>",
+    "Stop before the run's estimated cost exceeds this many dollars",
+    parsePositiveNumber
+  )
+  .option("-y, --yes", "Run sensitive tool calls without asking, e.g. in CI")
+  .option(
+    "--json",
+    "Print the structured run result as JSON on stdout; everything else goes to stderr"
+  )
   .action(async (text, options) => {
     try {
       await queryCommand(text, options);
@@ -66,6 +115,30 @@ program
     }
   });
 
+program
+  .command("chat")
+  .description("Start an interactive multi-turn session with the agent")
+  .option("-r, --resume <id>", "Continue a saved chat session")
+  .option("-l, --list", "List saved chat sessions")
+  .option("-v, --verbose", "Show full tool arguments")
+  .option("-m, --model <provider:id>", "Model to use for this session")
+  .option(
+    "--profile <name>",
+    `Agent profile for this session (${profileNames})`
+  )
+  .option("-y, --yes", "Run sensitive tool calls without asking")
+  .action(async (options) => {
+    try {
+      await chatCommand(options);
+    } catch (error) {
+      logger.error(
+        "Chat command failed:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  });
+
 program
   .command("status")
   .description("Show current database and project status")
@@ -82,9 +155,124 @@ program
     }
   });
 
+program
+  .command("undo [runId]")
+  .description("Restore the project to its state before an agent run")
+  .option("-l, --list", "List recorded runs instead of undoing one")
+  .action(async (runId, options) => {
+    try {
+      await undoCommand(runId, options);
+    } catch (error) {
+      logger.error(
+        "Undo command failed:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("resume <runId>")
+  .description("Continue a run that crashed or stopped before finishing")
+  .option("-v, --verbose", "Show full tool arguments and usage per step")
+  .option("-m, --model <provider:id>", "Model to continue with")
+  .option("--no-verify", "Skip type-checking and linting the changed files")
+  .option("-y, --yes", "Run sensitive tool calls without asking, e.g. in CI")
+  .action(async (runId, options) => {
+    try {
+      await resumeCommand(runId, options);
+    } catch (error) {
+      logger.error(
+        "Resume command failed:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("replay <trace>")
+  .description(
+    "Rerun a recorded trace against a mock model that gives the recorded responses"
+  )
+  .option("-v, --verbose", "Show full tool arguments and the replayed changes")
+  .action(async (trace, options) => {
+    try {
+      await replayCommand(trace, options);
+    } catch (error) {
+      logger.error(
+        "Replay command failed:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  });
+
+const prompts = program
+  .command("prompts")
+  .description("Inspect the prompt templates the agent uses");
+
+prompts
+  .command("show [name]")
+  .description(
+    "Print the rendered system prompt of a profile, or a single template"
+  )
+  .action(async (name) => {
+    try {
+      await promptsShowCommand(name);
+    } catch (error) {
+      logger.error(
+        "Prompts command failed:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  });
+
+prompts
+  .command("list")
+  .description("List prompt templates and which ones the project overrides")
+  .action(async () => {
+    try {
+      await promptsListCommand();
+    } catch (error) {
+      logger.error(
+        "Prompts command failed:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("memory")
+  .description("Show what the agent remembers about this project")
+  .option("-e, --edit", "Edit the project memory in your editor")
+  .action(async (options) => {
+    try {
+      await memoryCommand(options);
+    } catch (error) {
+      logger.error(
+        "Memory command failed:",
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  });
+
 // Handle graceful shutdown
 process.on("SIGINT", () => {
   console.log("\n");
+
+  // Never leave the project half-modified by an interrupted run
+  const activeRun = getActiveRun();
+  if (activeRun) {
+    const restored = rollbackRun(activeRun, "Interrupted");
+    logger.warning(
+      `Run ${activeRun.id} interrupted. Rolled back ${restored.length} file(s).`
+    );
+  }
+
   logger.info("Database agent interrupted. Goodbye! 👋");
   process.exit(0);
 });
@@ -0,0 +1,98 @@
+import chalk from "chalk";
+import inquirer from "inquirer";
+import { unifiedDiff } from "../../agent/diff";
+import { approveAll, type Approver } from "../../agent/approvals";
+import { colorizeDiff } from "./diff";
+import { logger } from "./logger";
+import type { ApprovalDecision, ApprovalRequest } from "../../types";
+
+function renderRequest(request: ApprovalRequest) {
+  console.log(chalk.yellow.bold(`\n⏸️  Approval needed: ${request.reason}`));
+  if (request.changes.length > 0) {
+    request.changes.forEach((change) => {
+      console.log(
+        colorizeDiff(unifiedDiff(change.path, change.before, change.after))
+      );
+    });
+  } else {
+    console.log(
+      `${chalk.magenta(request.toolName)} ${chalk.white(
+        JSON.stringify(request.input, null, 2)
+      )}`
+    );
+  }
+}
+
+/**
+ * Ask the user to approve, reject or edit a sensitive tool call. Edited
+ * arguments are given as JSON; invalid JSON brings the question back.
+ */
+export async function promptForApproval(
+  request: ApprovalRequest
+): Promise<ApprovalDecision> {
+  renderRequest(request);
+
+  while (true) {
+    const { decision } = await inquirer.prompt([
+      {
+        type: "select",
+        name: "decision",
+        message: `Run ${request.toolName}?`,
+        choices: [
+          { name: "Approve", value: "approve" },
+          { name: "Reject", value: "reject" },
+          { name: "Edit arguments", value: "edit" },
+        ],
+      },
+    ]);
+
+    if (decision === "approve") return { action: "approve" };
+
+    if (decision === "reject") {
+      const { reason } = await inquirer.prompt([
+        {
+          type: "input",
+          name: "reason",
+          message: "Reason for the agent (optional)",
+        },
+      ]);
+      return { action: "reject", reason: reason.trim() || undefined };
+    }
+
+    const { edited } = await inquirer.prompt([
+      {
+        type: "editor",
+        name: "edited",
+        message: "Edit the arguments (JSON)",
+        default: JSON.stringify(request.input, null, 2),
+        postfix: ".json",
+      },
+    ]);
+    try {
+      return { action: "edit", input: JSON.parse(edited) };
+    } catch (error) {
+      logger.error(
+        "Edited arguments are not valid JSON:",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
+
+/**
+ * The approver for a CLI command. --yes approves everything, and so do dry
+ * runs, which change nothing. Without a terminal there is nobody to ask, so
+ * sensitive calls are rejected.
+ */
+export function createApprover(
+  options: { yes?: boolean; dryRun?: boolean } = {}
+): Approver {
+  if (options.yes || options.dryRun) return approveAll;
+  if (!process.stdin.isTTY) {
+    return async () => ({
+      action: "reject",
+      reason: "No terminal to ask for approval. Rerun with --yes to allow it",
+    });
+  }
+  return promptForApproval;
+}
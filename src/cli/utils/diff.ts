@@ -0,0 +1,41 @@
+import chalk from "chalk";
+import { unifiedDiff } from "../../agent/diff";
+import type { FileChange } from "../../agent/workspace";
+
+export function colorizeDiff(patch: string): string {
+  return patch
+    .split("\n")
+    .filter((line) => !line.startsWith("====="))
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---")) {
+        return chalk.bold(line);
+      }
+      if (line.startsWith("+")) return chalk.green(line);
+      if (line.startsWith("-")) return chalk.red(line);
+      if (line.startsWith("@@")) return chalk.cyan(line);
+      return chalk.gray(line);
+    })
+    .join("\n");
+}
+
+export function printFileChanges(changes: FileChange[]) {
+  if (changes.length === 0) {
+    console.log(chalk.gray("No file changes."));
+    return;
+  }
+
+  changes.forEach((change) => {
+    console.log(
+      colorizeDiff(unifiedDiff(change.path, change.before, change.after))
+    );
+  });
+
+  const created = changes.filter((change) => change.before === null).length;
+  console.log(
+    chalk.white(
+      `${changes.length} file(s) would change: ${created} created, ${
+        changes.length - created
+      } modified`
+    )
+  );
+}
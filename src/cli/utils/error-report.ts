@@ -0,0 +1,38 @@
+import chalk from "chalk";
+import { classifyError, EXIT_CODES, type AgentError } from "../../agent/errors";
+import type { DelegationReport, PolicyViolation } from "../../types";
+import { logger } from "./logger";
+
+/**
+ * Print a failure with the remediation for its class. Returns the typed
+ * error, whose exit code the command exits with.
+ */
+export function reportError(error: unknown): AgentError {
+  const failure = classifyError(error);
+  console.log(chalk.red(failure.message));
+  logger.info(`💡 ${failure.remediation}`);
+  if (failure.rolledBack?.length) {
+    logger.warning(
+      `Rolled back ${failure.rolledBack.length} file(s) changed by the run`
+    );
+  }
+  return failure;
+}
+
+/**
+ * A run whose tool calls the policy refused did not do everything it was
+ * asked to, so the command exits with the policy code once it is done.
+ */
+export function setPolicyExitCode(violations: PolicyViolation[]) {
+  if (violations.length > 0) process.exitCode = EXIT_CODES.policy;
+}
+
+/**
+ * Exit code of a delegation: that of the first failed task, else the policy
+ * code when a task had calls refused.
+ */
+export function setDelegationExitCode(report: DelegationReport) {
+  setPolicyExitCode(report.tasks.flatMap((task) => task.violations ?? []));
+  const failed = report.tasks.find((task) => task.status === "failed");
+  if (failed) process.exitCode = EXIT_CODES[failed.code ?? "unknown"];
+}
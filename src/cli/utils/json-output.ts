@@ -0,0 +1,24 @@
+let writeStdout: typeof process.stdout.write | null = null;
+
+/**
+ * Reserve stdout for the JSON result. Everything else the CLI and the tools
+ * print, including progress and prompts, goes to stderr from now on.
+ */
+export function enableJsonOutput() {
+  if (writeStdout) return;
+  writeStdout = process.stdout.write.bind(process.stdout);
+  process.stdout.write = process.stderr.write.bind(
+    process.stderr
+  ) as typeof process.stdout.write;
+}
+
+export function printJson(value: unknown) {
+  const write = writeStdout ?? process.stdout.write.bind(process.stdout);
+  write(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+// Commander parses the options only after every module has loaded and
+// printed, so check the raw arguments
+if (process.argv.includes("--json")) {
+  enableJsonOutput();
+}
@@ -0,0 +1,101 @@
+import chalk from "chalk";
+import inquirer from "inquirer";
+import { agentPlanSchema, type AgentPlan } from "../../agent/planner";
+import { logger } from "./logger";
+
+export function renderPlan(plan: AgentPlan) {
+  console.log(chalk.cyan.bold("\n📝 Proposed Plan:"));
+  console.log(chalk.white(plan.summary));
+
+  if (plan.entities.length > 0) {
+    console.log(chalk.yellow.bold("\n🗄️  Entities:"));
+    plan.entities.forEach((entity) => {
+      console.log(`  • ${chalk.magenta(entity.name)} - ${entity.description}`);
+      console.log(
+        chalk.gray(
+          `    ${entity.fields
+            .map((field) => `${field.name}: ${field.type}`)
+            .join(", ")}`
+        )
+      );
+    });
+  }
+
+  if (plan.files.length > 0) {
+    console.log(chalk.yellow.bold("\n📁 Files:"));
+    plan.files.forEach((file) => {
+      const action =
+        file.action === "create" ? chalk.green("create") : chalk.blue("edit");
+      console.log(`  • [${action}] ${file.path} ${chalk.gray(file.purpose)}`);
+    });
+  }
+
+  if (plan.migrations.length > 0) {
+    console.log(chalk.yellow.bold("\n🚀 Migrations:"));
+    console.log(`  • ${plan.migrations.join(" → ")}`);
+  }
+
+  if (plan.components.length > 0) {
+    console.log(chalk.yellow.bold("\n⚛️  Components:"));
+    plan.components.forEach((component) => {
+      console.log(`  • ${component.path} ← ${component.hookName}`);
+    });
+  }
+}
+
+/**
+ * Show the plan and let the user approve, edit or cancel it. Resolves to the
+ * approved (possibly edited) plan, or null when the user cancels.
+ */
+export async function reviewPlan(plan: AgentPlan): Promise<AgentPlan | null> {
+  let current = plan;
+
+  while (true) {
+    renderPlan(current);
+
+    const { decision } = await inquirer.prompt([
+      {
+        type: "select",
+        name: "decision",
+        message: "What would you like to do with this plan?",
+        choices: [
+          { name: "Approve and execute", value: "approve" },
+          { name: "Edit plan", value: "edit" },
+          { name: "Cancel", value: "cancel" },
+        ],
+      },
+    ]);
+
+    if (decision === "approve") return current;
+    if (decision === "cancel") return null;
+
+    const { edited } = await inquirer.prompt([
+      {
+        type: "editor",
+        name: "edited",
+        message: "Edit the plan (JSON)",
+        default: JSON.stringify(current, null, 2),
+        postfix: ".json",
+      },
+    ]);
+
+    try {
+      const parsed = agentPlanSchema.safeParse(JSON.parse(edited));
+      if (parsed.success) {
+        current = parsed.data;
+      } else {
+        logger.error(
+          "Edited plan is invalid:",
+          parsed.error.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join("; ")
+        );
+      }
+    } catch (error) {
+      logger.error(
+        "Edited plan is not valid JSON:",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
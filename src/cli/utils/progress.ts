@@ -0,0 +1,221 @@
+import chalk from "chalk";
+import { createSpinner, type Spinner } from "./spinner";
+import { formatDiagnostic } from "../../agent/verify";
+import type { AgentEvent } from "../../types";
+
+export interface ProgressRenderer {
+  onEvent(event: AgentEvent): void;
+  stop(): void;
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+function formatInput(input: unknown, verbose?: boolean): string {
+  const json = JSON.stringify(input) ?? "";
+  if (verbose || json.length <= 80) return json;
+  return `${json.slice(0, 77)}...`;
+}
+
+// Renders agent events as they stream in: a spinner while the model is
+// thinking, one status line per tool call and the model's text inline.
+export function createProgressRenderer(
+  options: { verbose?: boolean } = {}
+): ProgressRenderer {
+  let spinner: Spinner | null = null;
+  let streamingText = false;
+  let toolCount = 0;
+  const toolNumbers = new Map<string, number>();
+
+  const stopSpinner = () => {
+    spinner?.stop();
+    spinner = null;
+  };
+
+  const endText = () => {
+    if (streamingText) {
+      process.stdout.write("\n");
+      streamingText = false;
+    }
+  };
+
+  return {
+    onEvent(event) {
+      switch (event.type) {
+        case "step-start":
+          endText();
+          stopSpinner();
+          spinner = createSpinner(`Step ${event.step}: thinking...`);
+          spinner.start();
+          break;
+
+        case "text-delta":
+          stopSpinner();
+          if (!streamingText) {
+            process.stdout.write(chalk.blue("🤖 "));
+            streamingText = true;
+          }
+          process.stdout.write(chalk.white(event.text));
+          break;
+
+        case "tool-call": {
+          endText();
+          stopSpinner();
+          toolNumbers.set(event.toolCallId, ++toolCount);
+          console.log(
+            `${chalk.cyan(`[${toolCount}]`)} ${chalk.magenta(
+              event.toolName
+            )} ${chalk.gray(formatInput(event.input, options.verbose))}`
+          );
+          break;
+        }
+
+        case "tool-result": {
+          stopSpinner();
+          const number = toolNumbers.get(event.toolCallId) ?? "?";
+          const status = event.success
+            ? chalk.green("✅ Success")
+            : chalk.red("❌ Failed");
+          console.log(
+            `${chalk.cyan(`[${number}]`)} ${chalk.magenta(
+              event.toolName
+            )}: ${status} ${chalk.gray(`(${formatDuration(event.durationMs)})`)}`
+          );
+          if (!event.success && event.error) {
+            console.log(chalk.red(`    ${event.error}`));
+          }
+          break;
+        }
+
+        case "stage-change":
+          endText();
+          stopSpinner();
+          console.log(
+            chalk.blue(
+              `➡️  Stage ${event.from} ${event.skipped ? "skipped" : "finished"}${
+                event.to ? `, moving on to ${event.to}` : ""
+              }`
+            )
+          );
+          break;
+
+        case "budget-exceeded":
+          endText();
+          stopSpinner();
+          console.log(
+            chalk.yellow(
+              event.limit === "cost"
+                ? `💰 Next step would exceed the ${formatCost(event.max)} budget (${formatCost(event.used)} spent), stopping`
+                : `💰 Next step would exceed the ${event.max} token budget (${event.used} used), stopping`
+            )
+          );
+          break;
+
+        case "retry":
+          endText();
+          stopSpinner();
+          console.log(
+            chalk.yellow(
+              `⏳ ${event.toolName ?? "Model call"} failed (${event.code}), retrying in ${formatDuration(
+                event.delayMs
+              )} (attempt ${event.attempt + 1}/${event.maxAttempts})`
+            )
+          );
+          if (options.verbose) console.log(chalk.gray(`    ${event.error}`));
+          break;
+
+        case "task-start":
+          endText();
+          stopSpinner();
+          console.log(
+            chalk.cyan.bold(
+              `\n🧩 Task ${event.index + 1}/${event.total}: ${event.task.role} ${
+                event.task.entity
+              } ${chalk.gray(`(${event.task.profile})`)}`
+            )
+          );
+          break;
+
+        case "task-finish": {
+          endText();
+          stopSpinner();
+          const { result } = event;
+          if (result.status === "completed") {
+            console.log(
+              chalk.green(`🧩 ${result.role} ${result.entity} completed`)
+            );
+          } else {
+            console.log(
+              chalk.red(
+                `🧩 ${result.role} ${result.entity} ${result.status}: ${result.error}`
+              )
+            );
+          }
+          break;
+        }
+
+        case "verify-start":
+          endText();
+          stopSpinner();
+          spinner = createSpinner(
+            `Verifying ${event.files.length} file(s) (attempt ${event.attempt})...`
+          );
+          spinner.start();
+          break;
+
+        case "verify-result": {
+          stopSpinner();
+          const { errorCount, warningCount, diagnostics, failedChecks } =
+            event.result;
+          failedChecks.forEach((check) =>
+            console.log(chalk.yellow(`⚠️ ${check.message}`))
+          );
+          if (errorCount === 0 && failedChecks.length > 0) {
+            console.log(
+              chalk.yellow(
+                `🔎 Verification incomplete: ${failedChecks
+                  .map((check) => check.source)
+                  .join(", ")} could not run`
+              )
+            );
+          } else if (errorCount === 0) {
+            console.log(
+              chalk.green(
+                `🔎 Verification passed${
+                  warningCount > 0 ? ` with ${warningCount} warning(s)` : ""
+                }`
+              )
+            );
+          } else {
+            console.log(
+              chalk.red(`🔎 Verification found ${errorCount} error(s)`)
+            );
+          }
+          if (options.verbose || errorCount > 0) {
+            diagnostics.forEach((diagnostic) => {
+              const color =
+                diagnostic.severity === "error" ? chalk.red : chalk.yellow;
+              console.log(color(`    ${formatDiagnostic(diagnostic)}`));
+            });
+          }
+          break;
+        }
+
+        case "finish":
+          endText();
+          stopSpinner();
+          break;
+      }
+    },
+
+    stop() {
+      endText();
+      stopSpinner();
+    },
+  };
+}
@@ -0,0 +1,184 @@
+import chalk from "chalk";
+import type { AgentRunResult } from "../../agent/core";
+import { isToolSuccess } from "../../agent/tool-middleware";
+import { formatCost } from "./progress";
+import { logger } from "./logger";
+import type { DelegationReport, UsageReport } from "../../types";
+
+// Outcome of a finished run: status, workflow stage, run id and tool calls
+export function printRunSummary(
+  result: AgentRunResult,
+  { verbose, label = "Query" }: { verbose?: boolean; label?: string } = {}
+) {
+  const { budget } = result.usage;
+  if (budget) {
+    logger.warning(
+      `Stopped early to stay within the ${
+        budget.limit === "cost"
+          ? `$${budget.max} cost budget`
+          : `${budget.max} token budget`
+      }`
+    );
+  }
+  const unresolved = result.verification?.errorCount ?? 0;
+  if (unresolved > 0) {
+    logger.warning(
+      `${label} completed with ${unresolved} unresolved error(s) after ${result.verification?.repairAttempts} repair attempt(s)`
+    );
+  } else {
+    logger.success(`${label} completed successfully!`);
+  }
+  const failedChecks = result.verification?.failedChecks ?? [];
+  if (failedChecks.length > 0) {
+    logger.warning(
+      `Not fully verified: ${failedChecks
+        .map((check) => check.source)
+        .join(", ")} could not run`
+    );
+  }
+  if (result.workflow) {
+    const { stageReached, skipped } = result.workflow;
+    logger.info(
+      stageReached === "done"
+        ? "Workflow finished every stage"
+        : `Workflow stopped in stage: ${chalk.cyan(stageReached)}`
+    );
+    if (verbose && skipped.length > 0) {
+      logger.info(`Skipped stages: ${skipped.join(", ")}`);
+    }
+  }
+  if (result.violations.length > 0) {
+    logger.warning(`Policy refused ${result.violations.length} tool call(s):`);
+    for (const violation of result.violations) {
+      console.log(
+        chalk.yellow(
+          `    🛡️  ${violation.toolName} (${violation.rule}): ${violation.message}`
+        )
+      );
+    }
+  }
+  if (result.runId) {
+    logger.info(
+      `Run ${chalk.cyan(result.runId)} recorded. Revert it with: agent undo ${result.runId}`
+    );
+    // Out of steps or budget: the checkpoint log lets the work continue
+    const unfinished = budget || result.workflow?.stageReached !== "done";
+    if (result.workflow && unfinished) {
+      logger.info(`Continue it with: agent resume ${result.runId}`);
+    }
+  }
+
+  if (verbose) {
+    logger.info(`Trace saved. Replay it with: agent replay ${result.traceId}`);
+  }
+
+  // Summarize every tool call once the run is over
+  const toolResults = result.steps.flatMap((step) => step.toolResults);
+  if ((verbose || toolResults.length > 3) && toolResults.length > 0) {
+    console.log(chalk.yellow.bold("\n📋 Execution Steps:"));
+    toolResults.forEach((toolResult, index) => {
+      const stepNum = chalk.cyan(`[${index + 1}]`);
+      const stepType = chalk.magenta(toolResult.toolName);
+      const output = toolResult.output as Record<string, any> | undefined;
+      const stepDesc = isToolSuccess(output)
+        ? chalk.green("✅ Success")
+        : chalk.red("❌ Failed");
+
+      console.log(`${stepNum} ${stepType}: ${stepDesc}`);
+
+      if (verbose && output && typeof output === "object") {
+        // Show additional details in verbose mode
+        const filePath = output.path ?? output.filePath;
+        if (filePath) {
+          console.log(`    📁 File: ${filePath}`);
+        }
+        if (output.tableName) {
+          console.log(`    🗄️ Table: ${output.tableName}`);
+        }
+        if (output.endpoint) {
+          console.log(`    🔗 Endpoint: ${output.endpoint}`);
+        }
+      }
+    });
+  }
+}
+
+const taskStatusColors = {
+  completed: chalk.green,
+  failed: chalk.red,
+  skipped: chalk.yellow,
+};
+
+// One line per sub-agent task of a delegated request
+export function printDelegationReport(report: DelegationReport) {
+  console.log(chalk.yellow.bold("\n🧩 Delegation Report:"));
+  report.tasks.forEach((task, index) => {
+    const stage =
+      task.stageReached && task.stageReached !== "done"
+        ? chalk.gray(` stopped in ${task.stageReached}`)
+        : "";
+    console.log(
+      `${chalk.cyan(`[${index + 1}]`)} ${chalk.magenta(task.role)} ${
+        task.entity
+      }: ${taskStatusColors[task.status](task.status)}${stage}${
+        task.runId ? chalk.gray(` run ${task.runId}`) : ""
+      }`
+    );
+    if (task.error) {
+      console.log(chalk.red(`    ${task.error}`));
+    }
+  });
+
+  const failed = report.tasks.filter((task) => task.status !== "completed");
+  if (failed.length === 0) {
+    logger.success("All delegated tasks completed successfully!");
+  } else {
+    logger.warning(
+      `${failed.length} of ${report.tasks.length} task(s) did not complete`
+    );
+  }
+}
+
+export function printUsage(usage: UsageReport, verbose?: boolean) {
+  const { total, cost } = usage;
+
+  console.log(chalk.gray.bold("\n📊 Usage Statistics:"));
+  console.log(chalk.gray(`Input tokens: ${total.inputTokens}`));
+  console.log(chalk.gray(`Output tokens: ${total.outputTokens}`));
+  console.log(chalk.gray(`Total tokens: ${total.totalTokens}`));
+  console.log(
+    chalk.gray(
+      `Estimated cost: ${
+        cost === undefined
+          ? "unknown (no price for this model)"
+          : formatCost(cost)
+      }`
+    )
+  );
+
+  const tools = Object.entries(usage.tools).sort(
+    ([, a], [, b]) => b.totalTokens - a.totalTokens
+  );
+  if (tools.length > 0) {
+    console.log(chalk.gray("By tool:"));
+    tools.forEach(([name, toolUsage]) => {
+      const calls = toolUsage.calls > 0 ? ` ×${toolUsage.calls}` : "";
+      console.log(
+        chalk.gray(`  ${name}${calls}: ${toolUsage.totalTokens} tokens`)
+      );
+    });
+  }
+
+  if (verbose) {
+    console.log(chalk.gray("By step:"));
+    usage.steps.forEach(({ step, usage: stepUsage, tools: stepTools }) => {
+      console.log(
+        chalk.gray(
+          `  [${step}] ${stepUsage.inputTokens} in / ${
+            stepUsage.outputTokens
+          } out${stepTools.length > 0 ? ` (${stepTools.join(", ")})` : ""}`
+        )
+      );
+    });
+  }
+}
@@ -15,6 +15,257 @@ export interface AgentStep {
   result?: any;
 }
 
+// Streaming agent events
+export type AgentEvent =
+  | { type: "step-start"; step: number }
+  | {
+      type: "tool-call";
+      step: number;
+      toolCallId: string;
+      toolName: string;
+      input: unknown;
+    }
+  | {
+      type: "tool-result";
+      step: number;
+      toolCallId: string;
+      toolName: string;
+      output: unknown;
+      success: boolean;
+      durationMs: number;
+      error?: string;
+    }
+  | { type: "text-delta"; step: number; text: string }
+  | {
+      type: "stage-change";
+      from: WorkflowStage;
+      to: WorkflowStage | null;
+      skipped: boolean;
+    }
+  | {
+      type: "budget-exceeded";
+      limit: BudgetLimit;
+      max: number;
+      used: number;
+    }
+  | { type: "task-start"; task: DelegatedTask; index: number; total: number }
+  | { type: "task-finish"; result: DelegatedTaskResult }
+  | { type: "verify-start"; attempt: number; files: string[] }
+  | { type: "verify-result"; attempt: number; result: VerificationResult }
+  | {
+      type: "retry";
+      // Unset when the model call is retried
+      toolName?: string;
+      code: ErrorCode;
+      error: string;
+      attempt: number;
+      maxAttempts: number;
+      delayMs: number;
+    }
+  | { type: "finish"; steps: number; finishReason: string };
+
+// Stages of the database workflow, in the order the runner moves through them
+export type WorkflowStage =
+  | "analyze"
+  | "schema"
+  | "generate_migration"
+  | "migrate"
+  | "api"
+  | "hook"
+  | "integrate";
+
+export interface WorkflowReport {
+  // The stage the run stopped in, or "done" when every stage was finished
+  stageReached: WorkflowStage | "done";
+  completed: WorkflowStage[];
+  skipped: WorkflowStage[];
+}
+
+// Sub-agent delegation
+export type SubAgentRole = "schema" | "api" | "frontend";
+
+export interface DelegatedTask {
+  role: SubAgentRole;
+  entity: string;
+  profile: string;
+  prompt: string;
+}
+
+export interface DelegatedTaskResult extends DelegatedTask {
+  status: "completed" | "failed" | "skipped";
+  runId?: string;
+  response?: string;
+  stageReached?: WorkflowReport["stageReached"];
+  usage?: UsageReport;
+  changes?: RunChanges;
+  warnings?: string[];
+  verification?: VerificationResult;
+  violations?: PolicyViolation[];
+  error?: string;
+  // Class of the error a failed task stopped with
+  code?: ErrorCode;
+}
+
+export interface DelegationReport {
+  tasks: DelegatedTaskResult[];
+  usage: UsageReport;
+}
+
+// Token accounting and budgets
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface BudgetSettings {
+  maxTokens?: number;
+  // USD, estimated from the model's price
+  maxCost?: number;
+}
+
+export type BudgetLimit = "tokens" | "cost";
+
+export interface UsageReport {
+  total: TokenUsage;
+  // Estimated USD; undefined when the model has no price
+  cost?: number;
+  steps: { step: number; usage: TokenUsage; tools: string[] }[];
+  tools: Record<string, TokenUsage & { calls: number }>;
+  // Set when the run was stopped to stay within budget
+  budget?: { limit: BudgetLimit; max: number; used: number };
+}
+
+// Tool-call policy (agent.config.json `policy`, keyed by tool name or "*")
+export interface ToolPolicy {
+  // Globs of project paths the tool may write; anything else is refused
+  allowPaths?: string[];
+  // Globs of project paths the tool may never write
+  denyPaths?: string[];
+  // Drizzle Kit actions run_migration may run
+  migrations?: ("generate" | "migrate" | "push")[];
+  // Most files the tool may write in one run
+  maxWrites?: number;
+}
+
+export interface PolicyViolation {
+  toolName: string;
+  toolCallId: string;
+  rule:
+    "outside-project" | "deny-path" | "allow-path" | "migration" | "max-writes";
+  message: string;
+  paths?: string[];
+}
+
+// Paths the file tools may not touch at all (agent.config.json `sandbox`)
+export interface SandboxSettings {
+  // Replaces DEFAULT_SANDBOX_DENY_PATHS
+  denyPaths?: string[];
+}
+
+// Failure classes, see src/agent/errors.ts
+export type ErrorCode =
+  | "auth"
+  | "rate-limit"
+  | "network"
+  | "tool"
+  | "database"
+  | "policy"
+  | "unknown";
+
+// How often to try a failing model or tool call. Only transient failures
+// (rate limits, dropped connections) are retried.
+export interface RetryRule {
+  // Attempts including the first one; 1 disables retries
+  maxAttempts?: number;
+  // Backoff before the first retry, doubled for every further one
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface RetrySettings {
+  model?: RetryRule;
+  // Keyed by tool name or "*"; replaces DEFAULT_RETRY entries
+  tools?: Record<string, RetryRule>;
+}
+
+// Human approval of sensitive tool calls
+export interface ApprovalRequest {
+  toolName: string;
+  toolCallId: string;
+  input: unknown;
+  // Why the call needs approval
+  reason: string;
+  // Content the call would write, when it can be known up front
+  changes: { path: string; before: string | null; after: string }[];
+}
+
+export type ApprovalDecision =
+  | { action: "approve" }
+  | { action: "reject"; reason?: string }
+  // Run the call with these arguments instead
+  | { action: "edit"; input: unknown };
+
+// What a run changed, derived from its files and tool results
+export interface RunChanges {
+  filesCreated: string[];
+  filesModified: string[];
+  // New tables, and existing ones that gained columns; `columns` lists the
+  // added columns as "name type"
+  tables: { name: string; file: string; columns: string[]; created: boolean }[];
+  migrations: { generated: boolean; applied: boolean };
+  endpoints: { endpoint: string; file: string; methods: string[] }[];
+  hooks: { name: string; file: string }[];
+  // Components the run changed
+  components: string[];
+}
+
+// Machine-readable outcome of a run, printed by `agent query --json`
+export interface AgentRunReport {
+  // Set for recorded runs, which can be undone
+  runId?: string;
+  traceId: string;
+  profile: string;
+  model: string;
+  dryRun: boolean;
+  // The agent's final answer
+  response: string;
+  changes: RunChanges;
+  warnings: string[];
+  usage: UsageReport;
+  verification?: VerificationResult;
+  workflow?: WorkflowReport;
+  violations: PolicyViolation[];
+}
+
+// Self-verification of files written by the agent
+export interface Diagnostic {
+  source: "tsc" | "eslint";
+  file: string;
+  line: number;
+  column: number;
+  severity: "error" | "warning";
+  code?: string;
+  message: string;
+}
+
+export interface VerificationResult {
+  files: string[];
+  diagnostics: Diagnostic[];
+  errorCount: number;
+  warningCount: number;
+  // Checks that could not run at all, e.g. tsc missing; not in the counts
+  failedChecks: Diagnostic[];
+  // Repair turns the agent was given before this result
+  repairAttempts: number;
+}
+
 // Database schema types
 export interface FieldDefinition {
   name: string;
@@ -55,6 +306,7 @@ export interface CliOptions {
   verbose?: boolean;
   dryRun?: boolean;
   force?: boolean;
+  model?: string;
 }
 
 // Environment configuration
@@ -73,3 +325,53 @@ export interface EnvironmentConfig {
   ai: AIConfig;
   nodeEnv: "development" | "production" | "test";
 }
+
+// Agent project configuration (agent.config.json)
+export interface ProviderSettings {
+  baseURL?: string;
+  apiKeyEnv?: string;
+  headers?: Record<string, string>;
+}
+
+export interface VerifySettings {
+  enabled?: boolean;
+  typecheck?: boolean;
+  lint?: boolean;
+  // Repair turns before giving up on remaining diagnostics
+  maxRepairAttempts?: number;
+}
+
+// What the agent is told about the project; see PROJECT_CONTEXT
+export interface ProjectSettings {
+  // Defaults to the name in package.json
+  name?: string;
+  description?: string;
+  // Database dialect named in prompts (default: PostgreSQL)
+  dialect?: string;
+  // Component file name -> what it shows
+  components?: Record<string, string>;
+  // Table name -> what it stores, so requests map to consistent table names
+  entities?: Record<string, string>;
+}
+
+export interface PromptSettings {
+  // Directory of project prompt templates (default: .agent/prompts)
+  dir?: string;
+  // Extra {{variables}} for the templates
+  variables?: Record<string, string>;
+}
+
+export interface AgentConfig {
+  model?: string;
+  providers?: Record<string, ProviderSettings>;
+  verify?: VerifySettings;
+  // Model spec (or "provider:*") to price, see DEFAULT_PRICING
+  pricing?: Record<string, ModelPrice>;
+  budget?: BudgetSettings;
+  project?: ProjectSettings;
+  prompts?: PromptSettings;
+  // Replaces DEFAULT_POLICY entries with the same tool name
+  policy?: Record<string, ToolPolicy>;
+  retry?: RetrySettings;
+  sandbox?: SandboxSettings;
+}
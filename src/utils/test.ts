@@ -1,6 +1,5 @@
-import { databaseAgent } from "../agent/core";
+import { createAgent, databaseAgent } from "../agent/core";
 import { logger } from "../cli/utils/logger";
-import { codingAgent } from "./agent";
 import dotenv from "dotenv";
 
 dotenv.config({ path: ".env.local" });
@@ -36,11 +35,14 @@ async function testAgent() {
   }
 }
 
-testAgent();
+// Test the schema-only profile
+async function testSchemaProfile() {
+  const result = await createAgent({ profile: "schema-only" }).run(
+    "Create a users table schema with id (uuid), email (varchar), name (varchar), created_at (timestamp), and is_active (boolean). Then generate a migration for it."
+  );
+  console.log(result.response);
+}
 
-// Test the database schema agent
-codingAgent(
-  "Create a users table schema with id (uuid), email (varchar), name (varchar), created_at (timestamp), and is_active (boolean). Then generate a migration for it."
-)
-  .then(console.log)
-  .catch(console.error);
+// One run at a time: the file snapshots behind rollback and undo are kept
+// for the active run only
+testAgent().then(testSchemaProfile).catch(console.error);